@@ -0,0 +1,158 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './App';
+import { setProvider } from './services/translationService';
+import { MAX_INPUT_CHARS } from './services/inputService';
+
+// Live translation waits for the user to pause typing
+const TRANSLATION_TIMEOUT = { timeout: 3000 };
+
+const setup = () => {
+  const user = userEvent.setup();
+  render(<App />);
+  return { user, input: screen.getByRole('textbox', { name: 'Text to translate' }) };
+};
+
+const translate = async (user: ReturnType<typeof userEvent.setup>, input: HTMLElement) => {
+  await user.type(input, 'Hello world');
+  return screen.findByRole('button', { name: 'Copy translation' }, TRANSLATION_TIMEOUT);
+};
+
+// The visually hidden region that announces actions to screen readers
+const liveRegion = () =>
+  screen.getAllByRole('status').find(element => element.classList.contains('sr-only'))!;
+
+beforeEach(() => {
+  localStorage.clear();
+  setProvider('mock');
+  // jsdom has no IndexedDB, so history fails to load and says so
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('global shortcuts', () => {
+  it('opens the command palette with Ctrl+K, even from the text box', async () => {
+    const { user, input } = setup();
+    await user.click(input);
+    await user.keyboard('{Control>}k{/Control}');
+    expect(screen.getByRole('dialog', { name: 'Command palette' })).toBeInTheDocument();
+  });
+
+  it('opens the shortcut list with ? outside text fields only', () => {
+    const { input } = setup();
+    const questionMark = { code: 'Slash', key: '?', shiftKey: true };
+    expect(fireEvent.keyDown(input, questionMark)).toBe(true);
+    expect(screen.queryByRole('dialog', { name: 'Keyboard shortcuts' })).not.toBeInTheDocument();
+
+    expect(fireEvent.keyDown(document.body, questionMark)).toBe(false);
+    expect(screen.getByRole('dialog', { name: 'Keyboard shortcuts' })).toBeInTheDocument();
+  });
+
+  it('leaves Alt shortcuts to the text box so Option characters can be typed', () => {
+    const { input } = setup();
+    expect(fireEvent.keyDown(input, { code: 'KeyI', key: 'ˆ', altKey: true })).toBe(true);
+    expect(fireEvent.keyDown(document.body, { code: 'KeyI', key: 'ˆ', altKey: true })).toBe(false);
+    expect(input).toHaveFocus();
+  });
+
+  it('opens the target language list with Alt+T', async () => {
+    const { user } = setup();
+    await user.keyboard('{Alt>}t{/Alt}');
+    expect(screen.getByRole('listbox', { name: 'Target Language' })).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('Search languages...')).toHaveFocus();
+  });
+
+  it('copies the translation with Alt+C', async () => {
+    const { user, input } = setup();
+    await translate(user, input);
+    input.blur();
+    await user.keyboard('{Alt>}c{/Alt}');
+    expect(await navigator.clipboard.readText()).toBe(screen.getByLabelText('Translation').textContent);
+  });
+});
+
+describe('icon buttons', () => {
+  it('gives every button an accessible name', async () => {
+    const { user, input } = setup();
+    await translate(user, input);
+    screen.getAllByRole('button').forEach(button => {
+      expect(button).toHaveAccessibleName();
+    });
+  });
+
+  it('labels icon-only buttons and advertises their shortcuts', async () => {
+    const { user, input } = setup();
+    expect(screen.getByRole('button', { name: 'Swap languages' })).toHaveAttribute('aria-keyshortcuts', 'Alt+S');
+    expect(screen.getByRole('button', { name: 'Keyboard shortcuts' })).toHaveTextContent('?');
+
+    const copy = await translate(user, input);
+    expect(copy).toHaveAttribute('aria-keyshortcuts', 'Alt+C');
+    expect(screen.getByRole('button', { name: 'Listen to translation' })).toHaveAttribute('aria-keyshortcuts', 'Alt+L');
+    expect(screen.getByRole('button', { name: 'Clear text' })).toBeInTheDocument();
+  });
+});
+
+describe('announcements', () => {
+  it('announces a copied translation', async () => {
+    const { user, input } = setup();
+    await user.click(await translate(user, input));
+    expect(await within(liveRegion()).findByText('Translation copied')).toBeInTheDocument();
+    expect(liveRegion()).toHaveAttribute('aria-live', 'polite');
+  });
+
+  it('announces a target language picked from the command palette', async () => {
+    const { user } = setup();
+    await user.keyboard('{Control>}k{/Control}');
+    await user.keyboard('Translate into Japanese{Enter}');
+    expect(await within(liveRegion()).findByText('Target language: Japanese')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Target Language/ })).toHaveTextContent('Japanese');
+  });
+});
+
+describe('dialogs', () => {
+  it.each([
+    ['Glossary', 'Glossary'],
+    ['Usage', 'Usage'],
+    ['Keyboard shortcuts', 'Keyboard shortcuts'],
+  ])('keeps Tab inside the %s dialog and returns focus to its button', async (opener, dialogName) => {
+    const { user } = setup();
+    const button = screen.getByRole('button', { name: opener });
+    await user.click(button);
+    const dialog = screen.getByRole('dialog', { name: dialogName });
+    expect(dialog).toContainElement(document.activeElement as HTMLElement);
+
+    const focusable = within(dialog).getAllByRole('button');
+    focusable[focusable.length - 1].focus();
+    await user.tab();
+    expect(dialog).toContainElement(document.activeElement as HTMLElement);
+    await user.tab({ shift: true });
+    expect(dialog).toContainElement(document.activeElement as HTMLElement);
+
+    await user.click(within(dialog).getByRole('button', { name: 'Close' }));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(button).toHaveFocus();
+  });
+
+  it('returns focus to the text box when the command palette is dismissed', async () => {
+    const { user, input } = setup();
+    await user.click(input);
+    await user.keyboard('{Control>}k{/Control}');
+    expect(screen.getByRole('combobox', { name: 'Search commands' })).toHaveFocus();
+    await user.keyboard('{Escape}');
+    expect(input).toHaveFocus();
+  });
+});
+
+describe('input limit', () => {
+  it('keeps over-long pasted text and explains why it is not translated', async () => {
+    const { input } = setup();
+    const text = 'a'.repeat(MAX_INPUT_CHARS + 1);
+    fireEvent.change(input, { target: { value: text } });
+    expect(input).toHaveValue(text);
+    expect(input).toHaveAttribute('aria-invalid', 'true');
+    expect(await screen.findByRole('alert', {}, TRANSLATION_TIMEOUT)).toHaveTextContent(/the limit is 50,000/);
+    expect(screen.queryByRole('button', { name: 'Copy translation' })).not.toBeInTheDocument();
+  });
+});
@@ -1,115 +1,591 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { SUPPORTED_LANGUAGES, TARGET_LANGUAGES } from './constants';
+import React, { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
 import { LanguageSelector } from './components/LanguageSelector';
 import { Button } from './components/Button';
-import { translateTextStream, playSpeech } from './services/geminiService';
-import { HistoryItem } from './types';
+import { HistoryPanel } from './components/HistoryPanel';
+import { DocumentTranslator } from './components/DocumentTranslator';
+import { GlossaryManager } from './components/GlossaryManager';
+import { HighlightedText } from './components/HighlightedText';
+import { MemoryPanel, MemorySuggestion } from './components/MemoryPanel';
+import { DictationButton } from './components/DictationButton';
+import { ConversationView } from './components/ConversationView';
+import { MultiTargetTranslator } from './components/MultiTargetTranslator';
+import { PlaybackControls } from './components/PlaybackControls';
+import { StyleSelector } from './components/StyleSelector';
+import { AlternativesPanel } from './components/AlternativesPanel';
+import { ErrorBanner } from './components/ErrorBanner';
+import { ISSUE_STYLES, QualityPanel } from './components/QualityPanel';
+import { PostEditor } from './components/PostEditor';
+import { ImageTranslator } from './components/ImageTranslator';
+import { UsageDashboard } from './components/UsageDashboard';
+import { TranslationTriggerSelector } from './components/TranslationTriggerSelector';
+import { CommandPalette, PaletteCommand } from './components/CommandPalette';
+import { ExportMenu } from './components/ExportMenu';
+import { ShortcutHelp } from './components/ShortcutHelp';
+import { detectLanguage } from './services/translationService';
+import { playSpeech } from './services/audioService';
+import { imageFromTransfer } from './services/imageService';
+import { downloadFile } from './services/fileService';
+import { ExportEntry, ExportFormat, exportFile } from './services/exportService';
+import { decodeShareHash, shareUrl } from './services/shareService';
+import { QualityReport, issueRanges } from './services/qualityService';
+import {
+  canSpeak,
+  findLanguage,
+  getLanguages,
+  getSourceLanguages,
+  languageName,
+  textDirection,
+} from './services/languageService';
+import {
+  ChunkProgress,
+  TextPart,
+  groupParagraphs,
+  joinSegments,
+  paragraphTranslations,
+  splitSentences,
+  translateSegments,
+} from './services/segmentService';
+import { LiveTranslationSettings, loadLiveSettings, saveLiveSettings } from './services/liveTranslationService';
+import { SHORTCUTS, ShortcutId, isTypingTarget, matchesShortcut } from './services/shortcutService';
+import { MAX_INPUT_CHARS, outputWarning, validateInput } from './services/inputService';
+import {
+  UsageBudget,
+  clearUsage,
+  dayKey,
+  getUsage,
+  isBudgetExceeded,
+  loadBudget,
+  saveBudget,
+  subscribeUsage,
+  totalUsage,
+} from './services/usageService';
+import {
+  addMemoryEntries,
+  getFuzzyThreshold,
+  loadMemory,
+  matchSegments,
+  setFuzzyThreshold,
+} from './services/translationMemoryService';
+import {
+  loadHistory,
+  subscribeToHistory,
+  clearUnpinned,
+  addHistoryItem,
+  saveApprovedTranslation,
+  togglePinned,
+  removeHistoryItem,
+} from './services/historyService';
+import { entriesForPair, findViolations, loadGlossary, saveGlossary } from './services/glossaryService';
+import { isDefaultStyle, loadStyle, saveStyle } from './services/styleService';
+import {
+  TranslationError,
+  classifyError,
+  getNetworkState,
+  subscribeNetworkState,
+} from './services/requestService';
+import { DetectionResult, GlossaryEntry, HistoryItem, TranslationStyle } from './types';
+
+type WorkspaceMode = 'text' | 'multi-target' | 'document' | 'image' | 'conversation';
+type DictationStatus = 'off' | 'interim' | 'final';
 
 const App: React.FC = () => {
+  const [mode, setMode] = useState<WorkspaceMode>('text');
   const [inputText, setInputText] = useState('');
   const [translatedText, setTranslatedText] = useState('');
   const [sourceLang, setSourceLang] = useState('auto');
   const [targetLang, setTargetLang] = useState('es');
   const [isTranslating, setIsTranslating] = useState(false);
+  // Set while a long text is sent in several requests
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress | null>(null);
+  // Only meaningful while the source is 'auto'
+  const [detectedSource, setDetectedSource] = useState<DetectionResult | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  // The retry action is only offered for failures that have one
+  const [failure, setFailure] = useState<{ error: TranslationError; retry?: () => void } | null>(null);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(loadGlossary);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // Bumped to open the target language list from the keyboard
+  const [targetListRequest, setTargetListRequest] = useState(0);
+  // Read out by the screen-reader-only status region
+  const [announcement, setAnnouncement] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [budget, setBudget] = useState<UsageBudget>(loadBudget);
+  const [liveSettings, setLiveSettings] = useState<LiveTranslationSettings>(loadLiveSettings);
+  const [style, setStyle] = useState<TranslationStyle>(loadStyle);
+  const [fuzzyThreshold, setFuzzyThresholdState] = useState(getFuzzyThreshold);
+  const [memorySuggestions, setMemorySuggestions] = useState<MemorySuggestion[]>([]);
+  const [memoryReuse, setMemoryReuse] = useState<{ reused: number; total: number } | null>(null);
+  const [dictationStatus, setDictationStatus] = useState<DictationStatus>('off');
+  // Screenshot pasted into the text box, handed over to image mode
+  const [pastedImage, setPastedImage] = useState<File | null>(null);
+  const [quality, setQuality] = useState<QualityReport | null>(null);
+  // Snapshot of the segmented output being post-edited
+  const [postEdit, setPostEdit] = useState<{ parts: TextPart[]; current: string[]; machine: string[] } | null>(null);
+  const network = useSyncExternalStore(subscribeNetworkState, getNetworkState);
+  const usage = useSyncExternalStore(subscribeUsage, getUsage);
   
-  const abortControllerRef = useRef<number | null>(null);
-  const translationIdRef = useRef<string | null>(null);
+  const debounceTimerRef = useRef<number | null>(null);
+  const streamControllerRef = useRef<AbortController | null>(null);
+  // Session restored from history, so the debounce doesn't re-translate it
+  const restoredRef = useRef<HistoryItem | null>(null);
+  // Text opened from a share link, translated straight away even in manual mode
+  const sharedRef = useRef<string | null>(null);
+  // Input text from before dictation started; transcripts are appended to it
+  const dictationBaseRef = useRef('');
+  // Sentence layout of the current output, so memory suggestions can be spliced
+  // in; `machine` keeps the model output once the segments have been post-edited
+  const segmentationRef = useRef<{ parts: TextPart[]; translations: string[]; machine?: string[] } | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  // Paragraph translations from the last completed run, reused by live mode
+  // while the languages, style and glossary stay the same
+  const paragraphCacheRef = useRef<{ context: string; paragraphs: Map<string, string[]> } | null>(null);
 
-  // Load history from localStorage
-  useEffect(() => {
-    const saved = localStorage.getItem('translation_history');
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to load history", e);
-      }
+  const refreshHistory = useCallback(async () => {
+    try {
+      setHistory(await loadHistory());
+    } catch (e) {
+      console.error("Failed to load history", e);
     }
   }, []);
 
-  const saveToHistory = useCallback((text: string, translated: string, sLang: string, tLang: string) => {
+  const pairGlossary = useMemo(
+    () => entriesForPair(glossary, sourceLang, targetLang),
+    [glossary, sourceLang, targetLang]
+  );
+
+  // Checked only once the stream is complete; partial output would always fail
+  const glossaryViolations = useMemo(
+    () => (isTranslating ? [] : findViolations(inputText, translatedText, pairGlossary)),
+    [isTranslating, inputText, translatedText, pairGlossary]
+  );
+
+  const translationWarning = useMemo(
+    () => (isTranslating || !translatedText ? null : outputWarning(inputText, translatedText)),
+    [isTranslating, inputText, translatedText]
+  );
+
+  const outputHighlights = useMemo(() => [
+    ...glossaryViolations.flatMap(v => v.ranges.map(r => ({
+      ...r,
+      className: 'bg-amber-100 text-amber-800 rounded px-0.5',
+      title: `Glossary: expected "${v.entry.targetTerm}"`,
+    }))),
+    ...(quality ? issueRanges(translatedText, quality.issues) : []).map(({ issue, start, end }) => ({
+      start,
+      end,
+      className: `${ISSUE_STYLES[issue.type]} rounded px-0.5`,
+      title: `${issue.type}: ${issue.explanation}`,
+    })),
+  ], [glossaryViolations, quality, translatedText]);
+
+  const todayUsage = useMemo(() => totalUsage(usage.filter(row => row.day === dayKey())), [usage]);
+  const overBudget = isBudgetExceeded(todayUsage, budget);
+  // Past the budget, text is only translated when the user asks
+  const budgetPaused = overBudget && budget.onExceeded === 'manual';
+  const manualTranslation = liveSettings.trigger === 'manual' || budgetPaused;
+  const translationContext = JSON.stringify([sourceLang, targetLang, style, pairGlossary]);
+
+  const updateBudget = (next: UsageBudget) => {
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const updateLiveSettings = (next: LiveTranslationSettings) => {
+    setLiveSettings(next);
+    saveLiveSettings(next);
+  };
+
+  const rememberParagraphs = (parts: TextPart[], translations: string[]) => {
+    paragraphCacheRef.current = { context: translationContext, paragraphs: paragraphTranslations(parts, translations) };
+  };
+
+  const updateGlossary = (entries: GlossaryEntry[]) => {
+    setGlossary(entries);
+    saveGlossary(entries);
+  };
+
+  const updateStyle = (next: TranslationStyle) => {
+    setStyle(next);
+    saveStyle(next);
+  };
+
+  const detection = sourceLang === 'auto' && detectedSource?.language !== 'und' ? detectedSource : null;
+  // Codes outside the registry (the model may answer "sv") can be shown but not selected
+  const detectedLanguage = findLanguage(detection?.language);
+  // What the input is written in, as far as we know
+  const inputLanguage = sourceLang === 'auto' ? detectedLanguage?.code : sourceLang;
+
+  // "Detected: French (92%)" stands in for the Auto-detect option once known
+  const sourceLanguages = useMemo(() => {
+    if (!detection) return getSourceLanguages();
+    const label = `Detected: ${detectedLanguage?.name ?? detection.language} (${Math.round(detection.confidence * 100)}%)`;
+    return getSourceLanguages().map(l => (l.code === 'auto' ? { ...l, name: label, nativeName: undefined } : l));
+  }, [detection, detectedLanguage]);
+
+  const translateOptions = useMemo(() => ({ glossary: pairGlossary, style }), [pairGlossary, style]);
+
+  // Load history and follow changes made in other tabs
+  useEffect(() => {
+    refreshHistory();
+    return subscribeToHistory(refreshHistory);
+  }, [refreshHistory]);
+
+  // Writes go straight to the store; state is re-read so it always mirrors it
+  const updateHistory = useCallback(async (write: () => Promise<void>) => {
+    try {
+      await write();
+    } catch (e) {
+      console.error("Failed to update history", e);
+    }
+    await refreshHistory();
+  }, [refreshHistory]);
+
+  const saveToHistory = useCallback((
+    text: string,
+    translated: string,
+    sLang: string,
+    tLang: string,
+    detectedLang?: string
+  ) => {
     if (!translated.trim() || !text.trim()) return;
-    
-    setHistory(prev => {
-      // Avoid duplicates at the top
-      if (prev.length > 0 && prev[0].translatedText === translated) return prev;
-
-      const item: HistoryItem = {
-        id: crypto.randomUUID(),
-        timestamp: Date.now(),
-        sourceLanguage: sLang,
-        targetLanguage: tLang,
-        translatedText: translated,
-      };
-
-      const newHistory = [item, ...prev].slice(0, 10);
-      localStorage.setItem('translation_history', JSON.stringify(newHistory));
-      return newHistory;
-    });
+
+    updateHistory(() => addHistoryItem({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      sourceText: text,
+      sourceLanguage: sLang,
+      targetLanguage: tLang,
+      translatedText: translated,
+      detectedLanguage: detectedLang,
+    }));
+  }, [updateHistory]);
+
+  const restoreFromHistory = (item: HistoryItem) => {
+    if (!item.sourceText) return;
+    cancelTranslation();
+    restoredRef.current = item;
+    setInputText(item.sourceText);
+    setSourceLang(item.sourceLanguage);
+    setTargetLang(item.targetLanguage);
+    setTranslatedText(item.translatedText);
+    setDetectedSource(null);
+    resetMemoryState();
+    setIsTranslating(false);
+    setFailure(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Share links replace the current text and are removed from the address bar
+  // once read, so later edits don't leave a stale link behind
+  useEffect(() => {
+    const openShareLink = async () => {
+      const shared = await decodeShareHash(window.location.hash);
+      if (!shared) return;
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      cancelTranslation();
+      sharedRef.current = shared.text;
+      setMode('text');
+      setPostEdit(null);
+      setInputText(shared.text);
+      if (shared.sourceLang === 'auto' || findLanguage(shared.sourceLang)) setSourceLang(shared.sourceLang);
+      if (findLanguage(shared.targetLang)) setTargetLang(shared.targetLang);
+      setStyle(shared.style);
+      setTranslatedText('');
+      setDetectedSource(null);
+      setFailure(null);
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
   }, []);
 
-  const performTranslation = async (text: string) => {
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await shareUrl({ text: inputText, sourceLang, targetLang, style }));
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 2000);
+      announce('Share link copied');
+    } catch (e) {
+      console.error("Failed to create share link", e);
+      announce("Couldn't copy the share link");
+    }
+  };
+
+  const downloadExport = (entries: ExportEntry[], format: ExportFormat, baseName: string) => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    const file = exportFile(entries, format, `${baseName}-${stamp}`);
+    if (file) downloadFile(file.content, file.fileName, file.mimeType);
+  };
+
+  const exportCurrent = (format: ExportFormat) => downloadExport([{
+    sourceText: inputText,
+    translatedText,
+    sourceLanguage: sourceLang,
+    targetLanguage: targetLang,
+    detectedLanguage: detection?.language,
+    timestamp: Date.now(),
+  }], format, 'translation');
+
+  // Suggestions refer to segments of the previous output
+  const resetMemoryState = () => {
+    segmentationRef.current = null;
+    setMemorySuggestions([]);
+    setMemoryReuse(null);
+  };
+
+  // Stops the in-flight stream, if any; its late chunks are dropped
+  const cancelTranslation = () => {
+    streamControllerRef.current?.abort();
+    streamControllerRef.current = null;
+  };
+
+  // `incremental` keeps the translation of every paragraph that hasn't
+  // changed since the last run and only sends the rest
+  const performTranslation = async (text: string, incremental = false) => {
     if (!text.trim()) {
       setTranslatedText('');
       return;
     }
 
+    cancelTranslation();
+    const invalid = validateInput(text);
+    if (invalid) {
+      setTranslatedText('');
+      setIsTranslating(false);
+      setFailure({ error: new TranslationError('invalid-input', invalid) });
+      return;
+    }
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+
     setIsTranslating(true);
-    setError(null);
-    let fullText = '';
+    setFailure(null);
+    setChunkProgress(null);
+    resetMemoryState();
+    // Detection runs alongside the stream so history knows the real source
+    const pendingDetection = sourceLang === 'auto'
+      ? detectLanguage(text, { signal: controller.signal }).catch(() => null)
+      : Promise.resolve(null);
+    pendingDetection.then(result => {
+      if (result && !controller.signal.aborted) setDetectedSource(result);
+    });
     
     try {
-      // Clear previous translation state
-      setTranslatedText('');
-      
-      await translateTextStream(
-        text,
-        sourceLang,
-        targetLang,
-        (chunk) => {
-          fullText += chunk;
-          setTranslatedText(fullText);
+      // Segments already in translation memory are reused verbatim; only
+      // the rest is sent to the model. Memory doesn't record the register it
+      // was written in, so it only serves the default style.
+      const useMemory = isDefaultStyle(style);
+      const parts = splitSentences(text, sourceLang === 'auto' ? undefined : sourceLang);
+      const segments = parts.filter(p => p.isSegment).map(p => p.text);
+
+      const kept: (string | undefined)[] = [];
+      const cache = paragraphCacheRef.current;
+      if (incremental && cache?.context === translationContext) {
+        groupParagraphs(parts).forEach(paragraph => {
+          const previous = cache.paragraphs.get(paragraph.text);
+          if (previous?.length === paragraph.segments.length) {
+            paragraph.segments.forEach((segmentIndex, k) => {
+              kept[segmentIndex] = previous[k];
+            });
+          }
+        });
+      }
+
+      const memory = useMemory ? await loadMemory(sourceLang, targetLang).catch(() => []) : [];
+      const matches = matchSegments(segments, memory, fuzzyThreshold);
+      const translations = segments.map((_, i) => kept[i] ?? matches.exact[i]?.targetText ?? '');
+      const fromMemory = segments.filter((_, i) => kept[i] === undefined && matches.exact[i]).length;
+      const uncovered = segments.map((_, i) => i).filter(i => kept[i] === undefined && !matches.exact[i]);
+      segmentationRef.current = { parts, translations };
+      controller.signal.throwIfAborted();
+      // Unchanged paragraphs show their final text straight away
+      setTranslatedText(joinSegments(parts, translations));
+
+      if (uncovered.length > 0) {
+        const results = await translateSegments(
+          uncovered.map(i => segments[i]),
+          sourceLang,
+          targetLang,
+          {
+            signal: controller.signal,
+            glossary: pairGlossary,
+            style,
+            onProgress: progress => {
+              if (!controller.signal.aborted) setChunkProgress(progress);
+            },
+            onPartial: (j, partial) => {
+              if (controller.signal.aborted) return;
+              translations[uncovered[j]] = partial;
+              setTranslatedText(joinSegments(parts, translations));
+            },
+          }
+        );
+        uncovered.forEach((segmentIndex, j) => {
+          translations[segmentIndex] = results[j];
+        });
+      }
+      const fullText = joinSegments(parts, translations);
+      controller.signal.throwIfAborted();
+      setTranslatedText(fullText);
+      rememberParagraphs(parts, translations);
+      setMemoryReuse({ reused: fromMemory, total: segments.length });
+      setMemorySuggestions(uncovered.flatMap(i => {
+        const match = matches.fuzzy[i];
+        return match ? [{ segmentIndex: i, sourceText: segments[i], match }] : [];
+      }));
+
+      const detected = await pendingDetection;
+      if (!controller.signal.aborted) {
+        saveToHistory(text, fullText, sourceLang, targetLang, detected?.language);
+        const memorySource = sourceLang === 'auto' ? detected?.language : sourceLang;
+        if (memorySource && useMemory) {
+          addMemoryEntries(memorySource, targetLang, uncovered.map(i => ({
+            sourceText: segments[i],
+            targetText: translations[i],
+          }))).catch(e => console.error("Failed to update translation memory", e));
         }
-      );
-      
-      saveToHistory(text, fullText, sourceLang, targetLang);
+      }
     } catch (err: any) {
       // Only show error if it's not a manual abort or interruption
-      if (err.name !== 'AbortError') {
-        setError(err.message || 'Translation failed. Please try again.');
+      if (err.name !== 'AbortError' && !controller.signal.aborted) {
+        setFailure({ error: classifyError(err), retry: () => performTranslation(text) });
       }
     } finally {
-      setIsTranslating(false);
+      // A newer translation owns the status indicator once it has started
+      if (streamControllerRef.current === controller) {
+        streamControllerRef.current = null;
+        setIsTranslating(false);
+        setChunkProgress(null);
+      }
     }
   };
 
+  // Ctrl+Enter and the Translate button; live mode skips the pause and
+  // still only sends changed paragraphs
+  const translateNow = () => {
+    if (!inputText.trim()) return;
+    if (debounceTimerRef.current) window.clearTimeout(debounceTimerRef.current);
+    performTranslation(inputText, liveSettings.trigger === 'live');
+  };
+
+  const applySuggestion = (suggestion: MemorySuggestion) => {
+    const segmentation = segmentationRef.current;
+    if (!segmentation) return;
+    segmentation.translations[suggestion.segmentIndex] = suggestion.match.entry.targetText;
+    setTranslatedText(joinSegments(segmentation.parts, segmentation.translations));
+    rememberParagraphs(segmentation.parts, segmentation.translations);
+    setMemorySuggestions(prev => prev.filter(s => s !== suggestion));
+  };
+
+  const openPostEditor = () => {
+    const segmentation = segmentationRef.current;
+    if (!segmentation) return;
+    setPostEdit({
+      parts: segmentation.parts,
+      current: [...segmentation.translations],
+      machine: segmentation.machine ?? [...segmentation.translations],
+    });
+  };
+
+  // Corrections replace the output, become the approved history entry and
+  // feed translation memory, so the next run reuses them
+  const savePostEdit = (edited: string[]) => {
+    if (!postEdit) return;
+    const { parts, current, machine } = postEdit;
+    const fullText = joinSegments(parts, edited);
+    setTranslatedText(fullText);
+    segmentationRef.current = { parts, translations: edited, machine };
+    rememberParagraphs(parts, edited);
+    setMemorySuggestions([]);
+    setPostEdit(null);
+
+    updateHistory(() => saveApprovedTranslation({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      sourceText: inputText,
+      sourceLanguage: sourceLang,
+      targetLanguage: targetLang,
+      translatedText: fullText,
+      detectedLanguage: detection?.language,
+      machineTranslation: joinSegments(parts, machine),
+    }));
+
+    const memorySource = sourceLang === 'auto' ? detection?.language : sourceLang;
+    const sourceSegments = parts.filter(p => p.isSegment).map(p => p.text);
+    const corrections = edited.flatMap((targetText, i) =>
+      targetText !== current[i] && targetText.trim() ? [{ sourceText: sourceSegments[i], targetText }] : []
+    );
+    if (memorySource && isDefaultStyle(style) && corrections.length > 0) {
+      addMemoryEntries(memorySource, targetLang, corrections)
+        .catch(e => console.error("Failed to update translation memory", e));
+    }
+  };
+
+  const updateFuzzyThreshold = (threshold: number) => {
+    setFuzzyThresholdState(threshold);
+    setFuzzyThreshold(threshold);
+  };
+
   // Debounce logic for live translation
   useEffect(() => {
-    if (abortControllerRef.current) {
-      window.clearTimeout(abortControllerRef.current);
+    if (debounceTimerRef.current) {
+      window.clearTimeout(debounceTimerRef.current);
+    }
+    cancelTranslation();
+    setPostEdit(null);
+
+    const restored = restoredRef.current;
+    restoredRef.current = null;
+    if (
+      restored &&
+      restored.sourceText === inputText &&
+      restored.sourceLanguage === sourceLang &&
+      restored.targetLanguage === targetLang
+    ) {
+      return;
     }
 
     if (!inputText.trim()) {
       setTranslatedText('');
+      setDetectedSource(null);
+      resetMemoryState();
       setIsTranslating(false);
       return;
     }
 
-    abortControllerRef.current = window.setTimeout(() => {
+    const shared = sharedRef.current;
+    sharedRef.current = null;
+    if (shared === inputText && !budgetPaused) {
       performTranslation(inputText);
-    }, 800);
+      return;
+    }
+
+    // Not dependencies: changing the trigger settings or crossing the budget
+    // mid-translation shouldn't cancel it
+    if (manualTranslation) return;
+
+    debounceTimerRef.current = window.setTimeout(() => {
+      performTranslation(inputText, true);
+    }, liveSettings.debounceMs);
 
     return () => {
-      if (abortControllerRef.current) window.clearTimeout(abortControllerRef.current);
+      if (debounceTimerRef.current) window.clearTimeout(debounceTimerRef.current);
     };
-  }, [inputText, sourceLang, targetLang]);
+  }, [inputText, sourceLang, targetLang, pairGlossary, fuzzyThreshold, style]);
+
+  // Abort any running stream when the app unmounts
+  useEffect(() => cancelTranslation, []);
+
+  // With Auto-detect the detected language becomes the new target
+  const swapSource = sourceLang === 'auto' ? detectedLanguage?.code : sourceLang;
 
   const handleSwapLanguages = () => {
-    if (sourceLang === 'auto') return;
-    const oldSource = sourceLang;
+    if (!swapSource) return;
+    const oldSource = swapSource;
     const oldTarget = targetLang;
     const oldInput = inputText;
     const oldOutput = translatedText;
@@ -118,23 +594,122 @@ const App: React.FC = () => {
     setTargetLang(oldSource);
     setInputText(oldOutput);
     setTranslatedText(oldInput);
+    announce(`Swapped: ${languageName(oldTarget)} to ${languageName(oldSource)}`);
+  };
+
+  const handleDictationListening = (listening: boolean) => {
+    if (listening) {
+      dictationBaseRef.current = inputText;
+      setDictationStatus('interim');
+    }
+  };
+
+  // Every transcript covers the whole recording, so it replaces the previous one
+  const handleTranscript = (transcript: string, isFinal: boolean) => {
+    const base = dictationBaseRef.current;
+    const separator = base && transcript && !/\s$/.test(base) ? ' ' : '';
+    setInputText(base + separator + transcript);
+    setDictationStatus(isFinal ? 'final' : 'interim');
+  };
+
+  // Auto-detected input is read in the detected language, detecting first if needed
+  const speakInput = async () => {
+    if (sourceLang !== 'auto') {
+      playSpeech(inputText, sourceLang);
+      return;
+    }
+    let language = detection?.language;
+    if (!language) {
+      try {
+        const result = await detectLanguage(inputText);
+        setDetectedSource(result);
+        language = result.language;
+      } catch (e) {
+        console.error("Language detection failed", e);
+      }
+    }
+    playSpeech(inputText, language && language !== 'und' ? language : 'en');
+  };
+
+  // Cleared first so that repeating the same message is announced again
+  const announce = (message: string) => {
+    setAnnouncement('');
+    window.setTimeout(() => setAnnouncement(message), 100);
   };
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
+    announce('Translation copied');
   };
 
+  const changeTargetLanguage = (code: string) => {
+    setTargetLang(code);
+    announce(`Target language: ${languageName(code)}`);
+  };
+
+  const isTextWorkspace = mode === 'text' && !postEdit;
+  const canSpeakOutput = isTextWorkspace && !!translatedText && canSpeak(targetLang);
+
+  // Read by the global listener, which is only added once
+  const shortcutHandlersRef = useRef<Partial<Record<ShortcutId, () => void>>>({});
+  shortcutHandlersRef.current = {
+    palette: () => setShowPalette(true),
+    help: () => setShowShortcuts(true),
+    translate: isTextWorkspace ? translateNow : undefined,
+    swap: mode !== 'conversation' && swapSource ? handleSwapLanguages : undefined,
+    copy: isTextWorkspace && translatedText ? () => copyToClipboard(translatedText) : undefined,
+    speak: canSpeakOutput ? () => playSpeech(translatedText, targetLang) : undefined,
+    focusInput: isTextWorkspace ? () => inputRef.current?.focus() : undefined,
+    targetLanguage: mode !== 'conversation' ? () => setTargetListRequest(n => n + 1) : undefined,
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const id = (Object.keys(SHORTCUTS) as ShortcutId[]).find(key => matchesShortcut(e, SHORTCUTS[key]));
+      const handler = id && shortcutHandlersRef.current[id];
+      // Without Ctrl or Cmd the keys type characters (Option+letter on a Mac),
+      // so those shortcuts are left alone inside text fields
+      if (!handler || (!SHORTCUTS[id].mod && isTypingTarget(e.target))) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const paletteCommands = (): PaletteCommand[] => [
+    { id: 'translate', label: 'Translate now', shortcut: SHORTCUTS.translate, disabled: !isTextWorkspace || !inputText.trim(), run: translateNow },
+    { id: 'swap', label: 'Swap languages', shortcut: SHORTCUTS.swap, disabled: mode === 'conversation' || !swapSource, run: handleSwapLanguages },
+    { id: 'copy', label: 'Copy the translation', shortcut: SHORTCUTS.copy, disabled: !isTextWorkspace || !translatedText, run: () => copyToClipboard(translatedText) },
+    { id: 'speak', label: 'Listen to the translation', shortcut: SHORTCUTS.speak, disabled: !canSpeakOutput, run: () => playSpeech(translatedText, targetLang) },
+    { id: 'focus', label: 'Focus the text box', shortcut: SHORTCUTS.focusInput, disabled: !isTextWorkspace, run: () => inputRef.current?.focus() },
+    { id: 'share', label: 'Copy a share link', disabled: !isTextWorkspace || !inputText.trim(), run: copyShareLink },
+    { id: 'clear', label: 'Clear the text', disabled: !inputText, run: clearAll },
+    { id: 'glossary', label: 'Open the glossary', run: () => setShowGlossary(true) },
+    { id: 'usage', label: 'Open usage and budgets', run: () => setShowUsage(true) },
+    { id: 'shortcuts', label: 'Show keyboard shortcuts', shortcut: SHORTCUTS.help, run: () => setShowShortcuts(true) },
+    ...(['text', 'multi-target', 'document', 'image', 'conversation'] as WorkspaceMode[]).map(m => ({
+      id: `mode-${m}`,
+      label: `Switch to ${m} mode`,
+      disabled: mode === m,
+      run: () => {
+        setMode(m);
+        setPastedImage(null);
+      },
+    })),
+    ...getLanguages().map(language => ({
+      id: `target-${language.code}`,
+      label: `Translate into ${language.name}`,
+      keywords: `target ${language.nativeName ?? ''} ${language.code}`,
+      disabled: language.code === targetLang,
+      run: () => changeTargetLanguage(language.code),
+    })),
+  ];
+
   const clearAll = () => {
     setInputText('');
     setTranslatedText('');
-    setError(null);
-  };
-
-  const speakText = (text: string, langCode: string) => {
-    const lang = SUPPORTED_LANGUAGES.find(l => l.code === langCode);
-    if (lang) {
-      playSpeech(text, lang.name);
-    }
+    setFailure(null);
   };
 
   return (
@@ -147,189 +722,423 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold text-gray-800 tracking-tight">LingoSync</h1>
           </div>
           <div className="flex items-center gap-3">
-             <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium transition-colors ${isTranslating ? 'bg-indigo-50 text-indigo-600' : 'bg-gray-50 text-gray-400'}`}>
-                <div className={`w-1.5 h-1.5 rounded-full ${isTranslating ? 'bg-indigo-600 animate-pulse' : 'bg-gray-300'}`}></div>
-                {isTranslating ? 'AI is thinking...' : 'AI Standby'}
-             </div>
+             <button
+                onClick={() => setShowGlossary(true)}
+                className="text-xs font-semibold text-gray-500 hover:text-indigo-600 transition-colors"
+             >
+                Glossary{glossary.length > 0 && ` (${glossary.length})`}
+             </button>
+             <button
+                onClick={() => setShowShortcuts(true)}
+                className="text-xs font-semibold text-gray-500 hover:text-indigo-600 transition-colors"
+                aria-label="Keyboard shortcuts"
+                title="Keyboard shortcuts (?)"
+             >
+                ?
+             </button>
+             <button
+                onClick={() => setShowUsage(true)}
+                className={`text-xs font-semibold transition-colors ${overBudget ? 'text-amber-600 hover:text-amber-700' : 'text-gray-500 hover:text-indigo-600'}`}
+                title={overBudget ? "Today's usage is over budget" : undefined}
+             >
+                Usage
+             </button>
+             {network.online ? (
+               <div role="status" className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium transition-colors ${isTranslating ? 'bg-indigo-50 text-indigo-600' : 'bg-gray-50 text-gray-400'}`}>
+                  <div className={`w-1.5 h-1.5 rounded-full ${isTranslating ? 'bg-indigo-600 animate-pulse' : 'bg-gray-300'}`}></div>
+                  {isTranslating ? 'AI is thinking...' : 'AI Standby'}
+               </div>
+             ) : (
+               <div role="status" className="flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-amber-50 text-amber-700">
+                  <div className="w-1.5 h-1.5 rounded-full bg-amber-500"></div>
+                  Offline{network.queued > 0 && ` · ${network.queued} queued`}
+               </div>
+             )}
           </div>
         </div>
       </header>
 
       <main className="max-w-5xl mx-auto px-4 mt-8">
         {/* Language Selection Bar */}
-        <div className="bg-white p-2 rounded-2xl shadow-sm border border-gray-200 flex flex-col md:flex-row items-center gap-2 mb-6">
-          <div className="flex-1 w-full">
-            <LanguageSelector 
-              label="Source Language"
-              languages={SUPPORTED_LANGUAGES}
-              value={sourceLang}
-              onChange={setSourceLang}
-            />
-          </div>
-          
-          <button 
-            onClick={handleSwapLanguages}
-            disabled={sourceLang === 'auto'}
-            className="p-3 hover:bg-gray-100 rounded-xl transition-all disabled:opacity-30 active:scale-95 bg-gray-50 md:bg-transparent"
-            title="Swap Languages"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-              <path d="M7 16V4M7 4L3 8M7 4L11 8" />
-              <path d="M17 8v12M17 20l4-4M17 20l-4-4" />
-            </svg>
-          </button>
-
-          <div className="flex-1 w-full">
-            <LanguageSelector 
-              label="Target Language"
-              languages={TARGET_LANGUAGES}
-              value={targetLang}
-              onChange={setTargetLang}
-            />
-          </div>
-        </div>
-
-        {/* Translation Workspace */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Input Panel */}
-          <div className="flex flex-col gap-2">
-            <div className="relative bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden group focus-within:border-indigo-300 focus-within:ring-4 focus-within:ring-indigo-50 transition-all">
-              <textarea
-                value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
-                placeholder="Type or paste text here..."
-                className="w-full h-[320px] p-6 resize-none outline-none text-xl leading-relaxed text-gray-800 placeholder-gray-400 font-light"
+        {mode !== 'conversation' && (
+          <div className="bg-white p-2 rounded-2xl shadow-sm border border-gray-200 flex flex-col md:flex-row items-center gap-2 mb-6">
+            <div className="flex-1 w-full">
+              <LanguageSelector 
+                label="Source Language"
+                languages={sourceLanguages}
+                value={sourceLang}
+                onChange={setSourceLang}
               />
-              <div className="absolute bottom-4 right-4 flex gap-2">
-                {inputText && (
-                  <button 
-                    onClick={clearAll}
-                    className="p-2 bg-gray-100 hover:bg-gray-200 text-gray-500 rounded-lg transition-colors"
-                    title="Clear"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
-                    </svg>
-                  </button>
-                )}
-              </div>
-              <div className="absolute bottom-4 left-6 text-[10px] font-bold uppercase tracking-widest text-gray-300">
-                 {inputText.length} Characters
-              </div>
-            </div>
-            <div className="flex justify-between items-center px-1">
-               <button 
-                  onClick={() => speakText(inputText, sourceLang === 'auto' ? 'en' : sourceLang)}
-                  disabled={!inputText}
-                  className="flex items-center gap-2 text-xs font-semibold text-gray-400 hover:text-indigo-600 disabled:opacity-0 transition-all"
-               >
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
-                  Listen
-               </button>
             </div>
-          </div>
+            
+            <button 
+              onClick={handleSwapLanguages}
+              disabled={!swapSource}
+              className="p-3 hover:bg-gray-100 rounded-xl transition-all disabled:opacity-30 active:scale-95 bg-gray-50 md:bg-transparent"
+              title="Swap Languages (Alt+S)"
+              aria-label="Swap languages"
+              aria-keyshortcuts="Alt+S"
+            >
+              <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M7 16V4M7 4L3 8M7 4L11 8" />
+                <path d="M17 8v12M17 20l4-4M17 20l-4-4" />
+              </svg>
+            </button>
 
-          {/* Output Panel */}
-          <div className="flex flex-col gap-2">
-            <div className={`relative bg-indigo-50/30 rounded-2xl shadow-sm border border-indigo-100 overflow-hidden min-h-[320px] transition-all ${isTranslating ? 'border-indigo-300 ring-2 ring-indigo-50' : ''}`}>
-              <div className="w-full h-full p-6 text-xl leading-relaxed text-gray-800 whitespace-pre-wrap font-light">
-                {translatedText || (
-                  <span className="text-gray-300 italic">Translated text will appear here as you type...</span>
-                )}
-                {isTranslating && !translatedText && (
-                  <div className="flex gap-1 mt-1">
-                    <span className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-bounce"></span>
-                    <span className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-bounce [animation-delay:0.2s]"></span>
-                    <span className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-bounce [animation-delay:0.4s]"></span>
-                  </div>
-                )}
-              </div>
-              
-              <div className="absolute bottom-4 right-4 flex gap-2">
-                {translatedText && (
-                  <>
-                    <button 
-                      onClick={() => copyToClipboard(translatedText)}
-                      className="p-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-500 rounded-lg shadow-sm transition-all active:scale-90"
-                      title="Copy to Clipboard"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" /></svg>
-                    </button>
-                    <button 
-                      onClick={() => speakText(translatedText, targetLang)}
-                      className="p-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg shadow-md transition-all active:scale-90"
-                      title="Listen"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
-                    </button>
-                  </>
-                )}
-              </div>
-            </div>
-            <div className="flex justify-end px-1">
-               <div className="text-[10px] font-bold uppercase tracking-widest text-indigo-300">
-                  AI-Powered Real-time Translation
-               </div>
+            <div className="flex-1 w-full">
+              <LanguageSelector 
+                label="Target Language"
+                languages={getLanguages()}
+                value={targetLang}
+                onChange={setTargetLang}
+                shortcut={SHORTCUTS.targetLanguage}
+                openRequest={targetListRequest}
+              />
             </div>
           </div>
-        </div>
-
-        {/* Error Feedback */}
-        {error && (
-          <div className="mt-6 p-4 bg-red-50 border border-red-100 text-red-600 rounded-xl text-sm flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
-            <p className="font-medium">{error}</p>
-          </div>
         )}
 
-        {/* Recent History Grid */}
-        {history.length > 0 && (
-          <div className="mt-16">
-            <div className="flex items-center justify-between mb-6">
-              <div className="flex items-center gap-2">
-                <h2 className="text-xl font-bold text-gray-800">Recent</h2>
-                <span className="px-2 py-0.5 bg-gray-100 text-gray-500 rounded text-[10px] font-bold uppercase">{history.length}</span>
-              </div>
-              <button 
-                className="text-xs font-semibold text-gray-400 hover:text-red-500 transition-colors"
+        {/* Mode Switch */}
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex gap-1 p-1 bg-gray-100 rounded-xl w-fit">
+            {(['text', 'multi-target', 'document', 'image', 'conversation'] as WorkspaceMode[]).map(m => (
+              <button
+                key={m}
                 onClick={() => {
-                  setHistory([]);
-                  localStorage.removeItem('translation_history');
+                  setMode(m);
+                  setPastedImage(null);
                 }}
+                className={`px-4 py-1.5 rounded-lg text-xs font-semibold capitalize transition-all ${mode === m ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
               >
-                Clear History
+                {m}
               </button>
+            ))}
+          </div>
+          {mode !== 'conversation' && (
+            <div className="flex flex-wrap items-center gap-2">
+              {mode === 'text' && <TranslationTriggerSelector value={liveSettings} onChange={updateLiveSettings} />}
+              <StyleSelector value={style} onChange={updateStyle} />
             </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {history.map((item) => (
-                <div 
-                  key={item.id} 
-                  className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm hover:border-indigo-200 hover:shadow-md transition-all group cursor-pointer"
-                  onClick={() => {
-                    setInputText(item.sourceLanguage === sourceLang ? inputText : ''); // Simple logic to "recall" if needed
+          )}
+        </div>
+
+        {overBudget && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-100 rounded-xl text-sm text-amber-700 flex items-center justify-between gap-3">
+            <span>
+              Today's usage is over your budget ({(todayUsage.inputTokens + todayUsage.outputTokens).toLocaleString()} tokens, about ${todayUsage.cost.toFixed(2)}).
+              {budgetPaused && liveSettings.trigger === 'live' && ' Live translation is paused; press Translate when you are ready.'}
+            </span>
+            <button onClick={() => setShowUsage(true)} className="text-xs font-bold uppercase tracking-wider whitespace-nowrap hover:text-amber-900">
+              View usage
+            </button>
+          </div>
+        )}
+
+        {/* Translation Workspace */}
+        {mode === 'text' && postEdit && (
+          <PostEditor
+            sourceSegments={postEdit.parts.filter(p => p.isSegment).map(p => p.text)}
+            segments={postEdit.current}
+            machineSegments={postEdit.machine}
+            onSave={savePostEdit}
+            onClose={() => setPostEdit(null)}
+          />
+        )}
+        {mode === 'text' && !postEdit && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Input Panel */}
+            <div className="flex flex-col gap-2">
+              <div className="relative bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden group focus-within:border-indigo-300 focus-within:ring-4 focus-within:ring-indigo-50 transition-all">
+                <textarea
+                  ref={inputRef}
+                  aria-label="Text to translate"
+                  value={inputText}
+                  onChange={(e) => {
+                    setInputText(e.target.value);
+                    if (dictationStatus === 'final') setDictationStatus('off');
+                  }}
+                  onPaste={(e) => {
+                    const image = imageFromTransfer(e.clipboardData);
+                    if (!image) return;
+                    e.preventDefault();
+                    setPastedImage(image);
+                    setMode('image');
                   }}
+                  placeholder="Type or paste text here, or paste a screenshot..."
+                  aria-invalid={inputText.length > MAX_INPUT_CHARS}
+                  lang={inputLanguage}
+                  dir={inputLanguage ? textDirection(inputLanguage) : 'auto'}
+                  className="w-full h-[320px] p-6 resize-none outline-none text-xl leading-relaxed text-gray-800 placeholder-gray-400 font-light"
+                />
+                <div className="absolute bottom-4 right-4 flex gap-2">
+                  <DictationButton
+                    languageName={sourceLang === 'auto' ? undefined : languageName(sourceLang)}
+                    onTranscript={handleTranscript}
+                    onListeningChange={handleDictationListening}
+                    onError={(error) => setFailure({ error })}
+                  />
+                  {inputText && (
+                    <button 
+                      onClick={clearAll}
+                      className="p-2 bg-gray-100 hover:bg-gray-200 text-gray-500 rounded-lg transition-colors"
+                      title="Clear"
+                      aria-label="Clear text"
+                    >
+                      <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+                <div className="absolute bottom-4 left-6 flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest text-gray-300">
+                   <span className={inputText.length > MAX_INPUT_CHARS ? 'text-red-400' : ''}>
+                     {inputText.length.toLocaleString()} / {MAX_INPUT_CHARS.toLocaleString()} Characters
+                   </span>
+                   {dictationStatus === 'interim' && (
+                     <span className="flex items-center gap-1.5 text-red-400">
+                       <span className="w-1.5 h-1.5 bg-red-400 rounded-full animate-pulse"></span>
+                       Listening · Interim
+                     </span>
+                   )}
+                   {dictationStatus === 'final' && (
+                     <span className="text-emerald-500">Final transcript</span>
+                   )}
+                </div>
+              </div>
+              <div className="flex justify-between items-center px-1">
+                 <button 
+                    onClick={speakInput}
+                    disabled={!inputText || (!!inputLanguage && !canSpeak(inputLanguage))}
+                    className="flex items-center gap-2 text-xs font-semibold text-gray-400 hover:text-indigo-600 disabled:opacity-0 transition-all"
+                 >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+                    Listen
+                 </button>
+                 {manualTranslation && (
+                   <Button
+                     className="text-xs"
+                     disabled={!inputText.trim() || isTranslating}
+                     onClick={translateNow}
+                     shortcut={SHORTCUTS.translate}
+                   >
+                     Translate
+                   </Button>
+                 )}
+              </div>
+            </div>
+
+            {/* Output Panel */}
+            <div className="flex flex-col gap-2">
+              <div className={`relative bg-indigo-50/30 rounded-2xl shadow-sm border border-indigo-100 overflow-hidden min-h-[320px] transition-all ${isTranslating ? 'border-indigo-300 ring-2 ring-indigo-50' : ''}`}>
+                <div
+                  className="w-full h-full p-6 text-xl leading-relaxed text-gray-800 whitespace-pre-wrap font-light"
+                  aria-label="Translation"
+                  aria-live="polite"
+                  aria-busy={isTranslating}
+                  lang={targetLang}
+                  dir={textDirection(targetLang)}
                 >
-                  <div className="flex justify-between items-start mb-3">
-                    <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-indigo-500">
-                      <span>{SUPPORTED_LANGUAGES.find(l => l.code === item.sourceLanguage)?.name}</span>
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 opacity-50" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10.293 3.293a1 1 0 011.414 0l6 6a1 1 0 010 1.414l-6 6a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-4.293-4.293a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
-                      <span>{SUPPORTED_LANGUAGES.find(l => l.code === item.targetLanguage)?.name}</span>
+                  {translatedText ? (
+                    <HighlightedText text={translatedText} highlights={outputHighlights} />
+                  ) : (
+                    <span className="text-gray-300 italic">
+                      {manualTranslation ? 'Press Ctrl+Enter to translate...' : 'Translated text will appear here as you type...'}
+                    </span>
+                  )}
+                  {isTranslating && !translatedText && (
+                    <div className="flex gap-1 mt-1">
+                      <span className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-bounce"></span>
+                      <span className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-bounce [animation-delay:0.2s]"></span>
+                      <span className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-bounce [animation-delay:0.4s]"></span>
+                    </div>
+                  )}
+                </div>
+
+                {isTranslating && chunkProgress && chunkProgress.totalChunks > 1 && (
+                  <div className="absolute bottom-4 left-6 flex items-center gap-3 w-1/2">
+                    <div className="flex-1 h-1.5 bg-indigo-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-indigo-500 transition-all"
+                        style={{ width: `${Math.round((chunkProgress.completedChunks / chunkProgress.totalChunks) * 100)}%` }}
+                      />
                     </div>
-                    <span className="text-[10px] text-gray-300 font-medium">
-                      {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-indigo-300 whitespace-nowrap">
+                      Chunk {Math.min(chunkProgress.completedChunks + 1, chunkProgress.totalChunks)} of {chunkProgress.totalChunks}
                     </span>
                   </div>
-                  <p className="text-gray-800 text-sm font-medium line-clamp-2 leading-relaxed">
-                    {item.translatedText}
-                  </p>
+                )}
+
+                <div className="absolute bottom-4 right-4 flex gap-2">
+                  {translatedText && (
+                    <>
+                      <button 
+                        onClick={() => copyToClipboard(translatedText)}
+                        className="p-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-500 rounded-lg shadow-sm transition-all active:scale-90"
+                        title="Copy to Clipboard (Alt+C)"
+                        aria-label="Copy translation"
+                        aria-keyshortcuts="Alt+C"
+                      >
+                        <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" /></svg>
+                      </button>
+                      <button 
+                        onClick={() => playSpeech(translatedText, targetLang)}
+                        disabled={!canSpeak(targetLang)}
+                        className="p-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg shadow-md transition-all active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title={canSpeak(targetLang) ? 'Listen (Alt+L)' : `Speech isn't available for ${languageName(targetLang)}`}
+                        aria-label="Listen to translation"
+                        aria-keyshortcuts="Alt+L"
+                      >
+                        <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+                      </button>
+                    </>
+                  )}
                 </div>
-              ))}
+              </div>
+              <div className="flex justify-between items-start gap-4 px-1">
+                 <div className="flex flex-wrap items-center gap-1.5">
+                    {!isTranslating && translatedText && segmentationRef.current && (
+                      <button
+                        onClick={openPostEditor}
+                        className="text-xs font-semibold text-indigo-500 hover:text-indigo-700 mr-1"
+                      >
+                        Review & edit
+                      </button>
+                    )}
+                    {translationWarning && (
+                      <span role="status" className="px-2 py-0.5 bg-amber-50 border border-amber-100 text-amber-700 rounded text-[11px] font-medium">
+                        {translationWarning}
+                      </span>
+                    )}
+                    {glossaryViolations.map(v => (
+                      <span
+                        key={v.entry.id}
+                        className="px-2 py-0.5 bg-amber-50 border border-amber-100 text-amber-700 rounded text-[11px] font-medium"
+                        title="Glossary term not applied"
+                      >
+                        {v.entry.sourceTerm} → {v.entry.targetTerm}
+                      </span>
+                    ))}
+                 </div>
+                 {translatedText && !isTranslating ? (
+                   <div className="flex items-center gap-2">
+                     <button
+                       onClick={copyShareLink}
+                       className="text-xs font-semibold text-indigo-500 hover:text-indigo-700"
+                       title="Copy a link that opens this translation"
+                     >
+                       {linkCopied ? 'Link copied' : 'Share link'}
+                     </button>
+                     <ExportMenu onExport={exportCurrent} />
+                   </div>
+                 ) : (
+                   <div className="text-[10px] font-bold uppercase tracking-widest text-indigo-300 whitespace-nowrap">
+                      AI-Powered Real-time Translation
+                   </div>
+                 )}
+              </div>
+              <AlternativesPanel
+                text={inputText}
+                sourceLang={sourceLang}
+                targetLang={targetLang}
+                options={translateOptions}
+                disabled={isTranslating || !translatedText}
+                onUse={(text) => {
+                  setTranslatedText(text);
+                  resetMemoryState();
+                }}
+              />
+              <QualityPanel
+                sourceText={inputText}
+                translatedText={translatedText}
+                sourceLang={sourceLang}
+                targetLang={targetLang}
+                options={translateOptions}
+                disabled={isTranslating}
+                report={quality}
+                onReport={setQuality}
+              />
             </div>
           </div>
         )}
+
+        {mode === 'text' && !postEdit && (
+          <MemoryPanel
+            suggestions={memorySuggestions}
+            reuse={memoryReuse}
+            threshold={fuzzyThreshold}
+            onThresholdChange={updateFuzzyThreshold}
+            onApply={applySuggestion}
+          />
+        )}
+        {mode === 'multi-target' && (
+          <MultiTargetTranslator sourceLang={sourceLang} initialText={inputText} initialTarget={targetLang} glossary={glossary} style={style} />
+        )}
+        {mode === 'document' && (
+          <DocumentTranslator sourceLang={sourceLang} targetLang={targetLang} glossary={pairGlossary} style={style} />
+        )}
+        {mode === 'image' && (
+          <ImageTranslator sourceLang={sourceLang} targetLang={targetLang} glossary={pairGlossary} style={style} initialImage={pastedImage} />
+        )}
+        {mode === 'conversation' && (
+          <ConversationView initialLeftLang={sourceLang} initialRightLang={targetLang} glossary={glossary} />
+        )}
+
+        {/* Error Feedback */}
+        {!network.online && network.queued > 0 && (
+          <div className="mt-6">
+            <ErrorBanner error={new TranslationError('offline')} />
+          </div>
+        )}
+        {failure && (
+          <div className="mt-6">
+            <ErrorBanner
+              error={failure.error}
+              onRetry={failure.retry && (() => {
+                setFailure(null);
+                failure.retry?.();
+              })}
+              onDismiss={() => setFailure(null)}
+            />
+          </div>
+        )}
+
+        {/* Recent History Grid */}
+        <HistoryPanel
+          items={history}
+          onSelect={restoreFromHistory}
+          onTogglePin={(id) => updateHistory(() => togglePinned(id))}
+          onDelete={(id) => updateHistory(() => removeHistoryItem(id))}
+          onClear={() => updateHistory(clearUnpinned)}
+          onExport={(items, format) => downloadExport(items, format, 'history')}
+        />
       </main>
 
+      {showGlossary && (
+        <GlossaryManager
+          entries={glossary}
+          sourceLang={sourceLang}
+          targetLang={targetLang}
+          onChange={updateGlossary}
+          onClose={() => setShowGlossary(false)}
+        />
+      )}
+
+      {showPalette && <CommandPalette commands={paletteCommands()} onClose={() => setShowPalette(false)} />}
+      {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+      {showUsage && (
+        <UsageDashboard
+          rows={usage}
+          budget={budget}
+          onBudgetChange={updateBudget}
+          onClear={clearUsage}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      <PlaybackControls />
+
       {/* Modern Footer */}
       <footer className="mt-24 border-t border-gray-100 py-12 text-center">
         <div className="flex flex-col items-center gap-4">
@@ -0,0 +1,61 @@
+import { readdir, stat } from "node:fs/promises";
+import { join, sep } from "node:path";
+
+// Just enough globbing for batch runs: `*` and `?` within a path segment and
+// `**` across directories. Node 20 has no fs.glob yet.
+
+const hasMagic = (segment: string) => /[*?]/.test(segment);
+
+export const globToRegExp = (pattern: string) => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      i++;
+      // "**/" also matches no directories at all
+      if (pattern[i + 1] === '/') {
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Expands each pattern to the files it matches, sorted per pattern. Plain
+// paths are passed through untouched so missing files are reported later.
+export const expandGlobs = async (patterns: string[]) => {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (!hasMagic(pattern)) {
+      files.add(pattern);
+      continue;
+    }
+    const normalized = pattern.split(sep).join('/').replace(/^\.\//, '');
+    const segments = normalized.split('/');
+    // Only walk below the literal part of the pattern
+    const base = segments.slice(0, segments.findIndex(hasMagic)).join('/') || '.';
+    const matcher = globToRegExp(normalized);
+
+    const entries = await readdir(base, { recursive: true }).catch(() => [] as string[]);
+    const matches: string[] = [];
+    for (const entry of entries) {
+      const path = join(base, entry).split(sep).join('/');
+      if (!path.includes('node_modules/') && matcher.test(path) && (await stat(path)).isFile()) {
+        matches.push(path);
+      }
+    }
+    matches.sort().forEach(match => files.add(match));
+  }
+
+  return [...files];
+};
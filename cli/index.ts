@@ -0,0 +1,223 @@
+import { parseArgs } from "node:util";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { FORMALITY_OPTIONS, TONE_PRESETS } from "../constants";
+import { Formality, GlossaryEntry, TonePreset, TranslateOptions } from "../types";
+import { geminiProvider } from "../services/geminiService";
+import { detectLanguage, setProvider, translateTextStream } from "../services/translationService";
+import { detectFormat, parseDocument, translateDocument } from "../services/documentService";
+import { entriesForPair, importCsv, importTbx } from "../services/glossaryService";
+import { withLanguageSuffix } from "../services/fileService";
+import { findLanguage, getLanguages } from "../services/languageService";
+import { expandGlobs } from "./glob";
+
+// A function so custom languages from .env.local are listed
+const usage = () => `Usage: npm run cli -- --to <code> [options] [files or globs...]
+
+Translates the given files, or stdin when none are given.
+
+Options:
+  -f, --from <code>     Source language (default: auto)
+  -t, --to <code>       Target language
+  -s, --stream          Print the translation as it arrives (stdin or one file)
+  -j, --json            Print JSON results, including the detected language
+  -o, --out-dir <dir>   Write each file to <dir> as name.<code>.ext
+      --formality <id>  ${FORMALITY_OPTIONS.map(o => o.id).join(' | ')}
+      --tone <id>       ${TONE_PRESETS.map(t => t.id).join(' | ')}
+      --glossary <file> Glossary exported from the app (.csv or .tbx)
+      --dry-run         Use the offline mock provider; no API key needed
+  -h, --help            Show this help
+
+Markdown, subtitle and JSON files keep their structure, as in document mode.
+Language codes: ${getLanguages().map(l => l.code).join(', ')}`;
+
+interface CliResult {
+  // null for stdin
+  file: string | null;
+  sourceLanguage: string;
+  detectedLanguage?: string;
+  confidence?: number;
+  targetLanguage: string;
+  translatedText?: string;
+  outputFile?: string;
+  error?: string;
+}
+
+class UsageError extends Error {}
+
+const parseOptions = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      from: { type: 'string', short: 'f', default: 'auto' },
+      to: { type: 'string', short: 't' },
+      stream: { type: 'boolean', short: 's', default: false },
+      json: { type: 'boolean', short: 'j', default: false },
+      'out-dir': { type: 'string', short: 'o' },
+      formality: { type: 'string', default: 'auto' },
+      tone: { type: 'string', default: 'neutral' },
+      glossary: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) return null;
+  if (!values.to) throw new UsageError('--to is required.');
+  // Aliases and base tags resolve to registry codes, so "zh" means zh-Hans
+  const from = values.from === 'auto' ? 'auto' : findLanguage(values.from)?.code;
+  if (!from) throw new UsageError(`Unknown source language "${values.from}".`);
+  const to = findLanguage(values.to)?.code;
+  if (!to) throw new UsageError(`Unknown target language "${values.to}".`);
+  if (!FORMALITY_OPTIONS.some(o => o.id === values.formality)) {
+    throw new UsageError(`Unknown formality "${values.formality}".`);
+  }
+  if (!TONE_PRESETS.some(t => t.id === values.tone)) {
+    throw new UsageError(`Unknown tone "${values.tone}".`);
+  }
+  if (values.stream && (values.json || values['out-dir'] || positionals.length > 1)) {
+    throw new UsageError('--stream prints a single translation; it cannot be combined with --json, --out-dir or several files.');
+  }
+
+  return {
+    from,
+    to,
+    stream: values.stream!,
+    json: values.json!,
+    outDir: values['out-dir'],
+    style: { formality: values.formality as Formality, tone: values.tone as TonePreset },
+    glossaryFile: values.glossary,
+    dryRun: values['dry-run']!,
+    patterns: positionals,
+  };
+};
+
+type CliOptions = NonNullable<ReturnType<typeof parseOptions>>;
+
+const loadGlossaryFile = async (path: string): Promise<GlossaryEntry[]> => {
+  const content = await readFile(path, 'utf8');
+  return path.toLowerCase().endsWith('.tbx') ? importTbx(content) : importCsv(content);
+};
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const translateInput = async (
+  file: string | null,
+  text: string,
+  options: CliOptions,
+  translateOptions: TranslateOptions
+): Promise<CliResult> => {
+  const result: CliResult = { file, sourceLanguage: options.from, targetLanguage: options.to };
+  const detection = options.from === 'auto' ? detectLanguage(text).catch(() => null) : Promise.resolve(null);
+
+  if (options.stream) {
+    await translateTextStream(text, options.from, options.to, chunk => process.stdout.write(chunk), translateOptions);
+    process.stdout.write('\n');
+  } else {
+    const format = (file && detectFormat(file)) || 'txt';
+    result.translatedText = await translateDocument(parseDocument(text, format), options.from, options.to, translateOptions);
+  }
+
+  const detected = await detection;
+  if (detected) {
+    result.detectedLanguage = detected.language;
+    result.confidence = detected.confidence;
+  }
+  return result;
+};
+
+const run = async () => {
+  // Loaded before parsing, since CUSTOM_LANGUAGES can add valid codes
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // No file; rely on the environment
+  }
+
+  const options = parseOptions();
+  if (!options) {
+    console.log(usage());
+    return 0;
+  }
+
+  if (options.dryRun) {
+    setProvider('mock');
+  } else {
+    if (!process.env.GEMINI_API_KEY) {
+      throw new UsageError('GEMINI_API_KEY is not set. Export it, add it to .env.local, or use --dry-run.');
+    }
+    setProvider(geminiProvider);
+  }
+
+  const glossary = options.glossaryFile ? await loadGlossaryFile(options.glossaryFile) : [];
+  const translateOptions: TranslateOptions = {
+    glossary: entriesForPair(glossary, options.from, options.to),
+    style: options.style,
+  };
+
+  const files = await expandGlobs(options.patterns);
+  if (options.patterns.length > 0 && files.length === 0) {
+    throw new UsageError(`No files match ${options.patterns.join(' ')}.`);
+  }
+  if (options.stream && files.length > 1) {
+    throw new UsageError('--stream prints a single translation, but the patterns match several files.');
+  }
+  if (files.length === 0 && process.stdin.isTTY) {
+    throw new UsageError('Pass files to translate or pipe text on stdin.');
+  }
+
+  const inputs: (string | null)[] = files.length > 0 ? files : [null];
+  const results: CliResult[] = [];
+  if (options.outDir) await mkdir(options.outDir, { recursive: true });
+
+  for (const file of inputs) {
+    let result: CliResult;
+    try {
+      const text = file === null ? await readStdin() : await readFile(file, 'utf8');
+      result = await translateInput(file, text, options, translateOptions);
+      if (options.outDir && result.translatedText !== undefined) {
+        result.outputFile = join(options.outDir, withLanguageSuffix(basename(file ?? 'stdin.txt'), options.to));
+        await writeFile(result.outputFile, result.translatedText);
+      }
+    } catch (err: any) {
+      result = { file, sourceLanguage: options.from, targetLanguage: options.to, error: err.message || String(err) };
+      console.error(`${file ?? 'stdin'}: ${result.error}`);
+    }
+    results.push(result);
+
+    if (!options.json && !options.stream && !options.outDir && result.translatedText !== undefined) {
+      // Headers like head(1) so several files can be told apart
+      if (inputs.length > 1) console.log(`==> ${file} <==`);
+      console.log(result.translatedText);
+    }
+  }
+
+  if (options.json) console.log(JSON.stringify(results, null, 2));
+  return results.some(r => r.error) ? 1 : 0;
+};
+
+// Output piped into something that stops reading, like head(1), closes the
+// pipe; that isn't an error, there's just nobody left to write to
+process.stdout.on('error', (err: NodeJS.ErrnoException) => {
+  if (err.code === 'EPIPE') process.exit(0);
+  throw err;
+});
+
+run().then(
+  code => {
+    process.exitCode = code;
+  },
+  err => {
+    if (err instanceof UsageError || String(err?.code).startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${err.message}\n\n${usage()}`);
+      process.exitCode = 2;
+    } else {
+      console.error(err);
+      process.exitCode = 1;
+    }
+  }
+);
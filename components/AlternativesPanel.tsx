@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './Button';
+import { TranslateOptions, TranslationAlternative } from '../types';
+import { translateAlternatives } from '../services/translationService';
+
+interface AlternativesPanelProps {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  options: TranslateOptions;
+  disabled?: boolean;
+  onUse: (translatedText: string) => void;
+}
+
+export const AlternativesPanel: React.FC<AlternativesPanelProps> = ({ text, sourceLang, targetLang, options, disabled, onUse }) => {
+  const [alternatives, setAlternatives] = useState<TranslationAlternative[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const reset = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setAlternatives(null);
+    setIsLoading(false);
+    setError(null);
+  };
+
+  // Candidates belong to one input; drop them as soon as it changes
+  useEffect(reset, [text, sourceLang, targetLang, options.style, options.glossary]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const load = async () => {
+    reset();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+    try {
+      const result = await translateAlternatives(text, sourceLang, targetLang, { ...options, signal: controller.signal });
+      if (!controller.signal.aborted) setAlternatives(result);
+    } catch (err: any) {
+      if (err.name !== 'AbortError' && !controller.signal.aborted) {
+        setError(err.message || 'Could not load alternatives.');
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {!alternatives && (
+        <Button
+          variant="ghost"
+          className="text-xs self-start"
+          isLoading={isLoading}
+          disabled={disabled || !text.trim()}
+          onClick={load}
+        >
+          Show alternatives
+        </Button>
+      )}
+      {error && <p role="alert" className="px-1 text-xs text-red-600">{error}</p>}
+      {alternatives && (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm divide-y divide-gray-100">
+          <div className="flex items-center justify-between px-4 py-2">
+            <span className="text-xs font-bold text-gray-800">Alternatives</span>
+            <button onClick={reset} className="text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-gray-600">Hide</button>
+          </div>
+          {alternatives.length === 0 && <p className="px-4 py-3 text-xs text-gray-400">No alternatives returned.</p>}
+          {alternatives.map((alternative, i) => (
+            <div key={i} className="px-4 py-3 flex items-start gap-4">
+              <div className="flex-1 flex flex-col gap-1">
+                <p className="text-sm text-gray-800 whitespace-pre-wrap">{alternative.translatedText}</p>
+                {alternative.note && <p className="text-xs text-gray-400">{alternative.note}</p>}
+              </div>
+              <Button variant="secondary" className="text-xs" onClick={() => onUse(alternative.translatedText)}>Use</Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,19 @@
 
 import React from 'react';
+import { Shortcut, ariaShortcut, formatShortcut } from '../services/shortcutService';
 
 interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
   variant?: 'primary' | 'secondary' | 'ghost';
   isLoading?: boolean;
+  // Advertised in the tooltip and to assistive technology; the caller handles the key
+  shortcut?: Shortcut;
 }
 
 export const Button: React.FC<ButtonProps> = ({ 
   children, 
   variant = 'primary', 
   isLoading, 
+  shortcut,
   className = '', 
   ...props 
 }) => {
@@ -25,6 +29,8 @@ export const Button: React.FC<ButtonProps> = ({
     <button 
       className={`${baseStyles} ${variants[variant]} ${className}`}
       disabled={isLoading || props.disabled}
+      title={shortcut && formatShortcut(shortcut)}
+      aria-keyshortcuts={shortcut && ariaShortcut(shortcut)}
       {...props}
     >
       {isLoading && (
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { CommandPalette, PaletteCommand } from './CommandPalette';
+
+const setup = (overrides: Partial<PaletteCommand>[] = []) => {
+  const commands: PaletteCommand[] = [
+    { id: 'translate', label: 'Translate now', run: vi.fn() },
+    { id: 'swap', label: 'Swap languages', run: vi.fn() },
+    { id: 'target-ja', label: 'Translate into Japanese', keywords: 'target 日本語 ja', run: vi.fn() },
+    { id: 'hidden', label: 'Clear the text', disabled: true, run: vi.fn() },
+  ].map((command, i) => ({ ...command, ...overrides[i] }));
+  const onClose = vi.fn();
+  render(<CommandPalette commands={commands} onClose={onClose} />);
+  return { commands, onClose, user: userEvent.setup() };
+};
+
+const optionLabels = () => screen.queryAllByRole('option').map(option => option.textContent);
+
+describe('CommandPalette', () => {
+  it('opens with the search box focused and lists enabled commands only', () => {
+    setup();
+    expect(screen.getByRole('dialog', { name: 'Command palette' })).toBeInTheDocument();
+    expect(screen.getByRole('combobox', { name: 'Search commands' })).toHaveFocus();
+    expect(optionLabels()).toEqual(['Translate now', 'Swap languages', 'Translate into Japanese']);
+  });
+
+  it('filters by every word in the label and keywords', async () => {
+    const { user } = setup();
+    await user.type(screen.getByRole('combobox'), 'translate 日本語');
+    expect(optionLabels()).toEqual(['Translate into Japanese']);
+  });
+
+  it('says so when nothing matches', async () => {
+    const { user } = setup();
+    await user.type(screen.getByRole('combobox'), 'xyzzy');
+    expect(screen.getByText('No commands match "xyzzy".')).toBeInTheDocument();
+  });
+
+  it('moves the active option with the arrow keys and runs it with Enter', async () => {
+    const { commands, onClose, user } = setup();
+    const input = screen.getByRole('combobox');
+    await user.keyboard('{ArrowDown}');
+    const active = screen.getByRole('option', { selected: true });
+    expect(active).toHaveTextContent('Swap languages');
+    expect(input).toHaveAttribute('aria-activedescendant', active.id);
+
+    await user.keyboard('{Enter}');
+    expect(onClose).toHaveBeenCalled();
+    expect(commands[1].run).toHaveBeenCalledOnce();
+    expect(commands[0].run).not.toHaveBeenCalled();
+  });
+
+  it('runs a command when it is clicked', async () => {
+    const { commands, user } = setup();
+    await user.click(screen.getByRole('option', { name: /Translate into Japanese/ }));
+    expect(commands[2].run).toHaveBeenCalledOnce();
+  });
+
+  it('closes on Escape and on a click outside', async () => {
+    const { onClose, user } = setup();
+    await user.keyboard('{Escape}');
+    expect(onClose).toHaveBeenCalledTimes(1);
+    await user.click(screen.getByRole('dialog').parentElement!);
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+
+  it('shows a command shortcut next to its label', () => {
+    setup([{ shortcut: { code: 'Enter', mod: true } }]);
+    expect(screen.getByRole('option', { name: /Translate now/ })).toHaveTextContent(/Ctrl\+Enter|⌘Enter/);
+  });
+});
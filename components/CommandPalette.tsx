@@ -0,0 +1,117 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { Shortcut, formatShortcut } from '../services/shortcutService';
+import { useFocusTrap } from './useFocusTrap';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  // Extra words the search matches, e.g. a language's native name
+  keywords?: string;
+  shortcut?: Shortcut;
+  disabled?: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+// Longest list rendered at once; typing narrows it further
+const MAX_RESULTS = 50;
+
+const matches = (command: PaletteCommand, query: string) => {
+  const haystack = `${command.label} ${command.keywords ?? ''}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const listId = useId();
+  useFocusTrap(dialogRef);
+
+  const results = commands.filter(command => !command.disabled && matches(command, query)).slice(0, MAX_RESULTS);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  // Closing first lets commands move focus, e.g. into the text box
+  const run = (command: PaletteCommand) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(results.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) run(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-gray-900/30 flex items-start justify-center p-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="bg-white rounded-2xl shadow-xl border border-gray-200 w-full max-w-lg mt-24 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command or a language..."
+          role="combobox"
+          aria-expanded
+          aria-controls={listId}
+          aria-activedescendant={results[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+          aria-label="Search commands"
+          className="w-full px-4 py-3 text-sm border-b border-gray-100 outline-none"
+        />
+        <ul ref={listRef} id={listId} role="listbox" aria-label="Commands" className="max-h-80 overflow-y-auto py-1">
+          {results.length === 0 && (
+            <li className="px-4 py-2 text-sm text-gray-400 italic">No commands match "{query}".</li>
+          )}
+          {results.map((command, index) => (
+            <li
+              key={command.id}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              data-active={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => run(command)}
+              className={`flex items-center justify-between gap-3 px-4 py-2 text-sm cursor-pointer ${index === activeIndex ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700'}`}
+            >
+              <span className="truncate">{command.label}</span>
+              {command.shortcut && (
+                <kbd className="text-[10px] font-mono text-gray-400 bg-gray-50 border border-gray-200 rounded px-1.5 py-0.5">
+                  {formatShortcut(command.shortcut)}
+                </kbd>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './Button';
+import { LanguageSelector } from './LanguageSelector';
+import { DictationButton } from './DictationButton';
+import { ConversationSide, ConversationTurn, GlossaryEntry } from '../types';
+import { translateTextStream } from '../services/translationService';
+import { playSpeech } from '../services/audioService';
+import { entriesForPair } from '../services/glossaryService';
+import { exportConversationCsv, exportConversationText } from '../services/conversationService';
+import { downloadFile } from '../services/fileService';
+import { getLanguages, languageName } from '../services/languageService';
+
+interface ConversationViewProps {
+  initialLeftLang: string;
+  initialRightLang: string;
+  glossary: GlossaryEntry[];
+}
+
+const SPEAKER_NAMES: Record<ConversationSide, string> = { left: 'Speaker A', right: 'Speaker B' };
+
+interface SideInputProps {
+  side: ConversationSide;
+  language: string;
+  onLanguageChange: (code: string) => void;
+  onSend: (text: string) => void;
+  onError: (message: string) => void;
+}
+
+const SideInput: React.FC<SideInputProps> = ({ side, language, onLanguageChange, onSend, onError }) => {
+  const [draft, setDraft] = useState('');
+
+  const send = (text: string) => {
+    if (!text.trim()) return;
+    onSend(text.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="flex-1 bg-white rounded-2xl border border-gray-200 shadow-sm p-4 flex flex-col gap-3">
+      <LanguageSelector label={SPEAKER_NAMES[side]} languages={getLanguages()} value={language} onChange={onLanguageChange} />
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(draft);
+        }}
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={`Type in ${languageName(language)}...`}
+          className="flex-1 bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        {/* Dictated speech is sent as soon as the final transcript arrives */}
+        <DictationButton
+          languageName={languageName(language)}
+          onTranscript={(text, isFinal) => (isFinal ? send(text) : setDraft(text))}
+          onListeningChange={() => {}}
+          onError={onError}
+        />
+        <Button type="submit" disabled={!draft.trim()}>Send</Button>
+      </form>
+    </div>
+  );
+};
+
+export const ConversationView: React.FC<ConversationViewProps> = ({ initialLeftLang, initialRightLang, glossary }) => {
+  const [languages, setLanguages] = useState<Record<ConversationSide, string>>({
+    left: initialLeftLang === 'auto' ? 'en' : initialLeftLang,
+    right: initialRightLang,
+  });
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [pending, setPending] = useState<Set<string>>(new Set());
+  const [speakTranslations, setSpeakTranslations] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+  const controllersRef = useRef(new Set<AbortController>());
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [turns]);
+
+  useEffect(() => () => controllersRef.current.forEach(c => c.abort()), []);
+
+  const updateTurn = (id: string, translatedText: string) =>
+    setTurns(prev => prev.map(t => (t.id === id ? { ...t, translatedText } : t)));
+
+  const handleSend = async (speaker: ConversationSide, text: string) => {
+    const sourceLanguage = languages[speaker];
+    const targetLanguage = languages[speaker === 'left' ? 'right' : 'left'];
+    const turn: ConversationTurn = {
+      id: crypto.randomUUID(),
+      speaker,
+      text,
+      translatedText: '',
+      sourceLanguage,
+      targetLanguage,
+      timestamp: Date.now(),
+    };
+    setTurns(prev => [...prev, turn]);
+    setPending(prev => new Set(prev).add(turn.id));
+    setError(null);
+
+    const controller = new AbortController();
+    controllersRef.current.add(controller);
+    let translated = '';
+    try {
+      await translateTextStream(text, sourceLanguage, targetLanguage, (chunk) => {
+        translated += chunk;
+        updateTurn(turn.id, translated);
+      }, {
+        signal: controller.signal,
+        glossary: entriesForPair(glossary, sourceLanguage, targetLanguage),
+      });
+      if (speakTranslations && translated.trim()) {
+        playSpeech(translated, targetLanguage);
+      }
+    } catch (err: any) {
+      if (err.name !== 'AbortError') {
+        setError(err.message || 'Translation failed. Please try again.');
+      }
+    } finally {
+      controllersRef.current.delete(controller);
+      setPending(prev => {
+        const next = new Set(prev);
+        next.delete(turn.id);
+        return next;
+      });
+    }
+  };
+
+  const exportAs = (format: 'txt' | 'csv') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'txt') {
+      downloadFile(exportConversationText(turns, SPEAKER_NAMES), `conversation-${stamp}.txt`, 'text/plain');
+    } else {
+      downloadFile(exportConversationCsv(turns, SPEAKER_NAMES), `conversation-${stamp}.csv`, 'text/csv');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-100">
+          <label className="flex items-center gap-2 text-xs font-medium text-gray-500">
+            <input type="checkbox" checked={speakTranslations} onChange={(e) => setSpeakTranslations(e.target.checked)} />
+            Speak translations aloud
+          </label>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" className="text-xs" disabled={turns.length === 0} onClick={() => exportAs('txt')}>Export TXT</Button>
+            <Button variant="ghost" className="text-xs" disabled={turns.length === 0} onClick={() => exportAs('csv')}>Export CSV</Button>
+            <Button variant="ghost" className="text-xs" disabled={turns.length === 0} onClick={() => setTurns([])}>Clear</Button>
+          </div>
+        </div>
+
+        <div className="h-[360px] overflow-y-auto p-5 flex flex-col gap-3">
+          {turns.length === 0 && (
+            <p className="m-auto text-sm text-gray-300 italic">Take turns speaking or typing; each message is translated for the other side.</p>
+          )}
+          {turns.map(turn => (
+            <div
+              key={turn.id}
+              className={`max-w-[75%] rounded-2xl px-4 py-3 ${turn.speaker === 'left' ? 'self-start bg-gray-50 border border-gray-100' : 'self-end bg-indigo-50 border border-indigo-100'}`}
+            >
+              <p className="text-[10px] font-bold uppercase tracking-wider text-gray-400 mb-1">
+                {SPEAKER_NAMES[turn.speaker]} · {languageName(turn.sourceLanguage)}
+              </p>
+              <p className="text-sm text-gray-500">{turn.text}</p>
+              <p className="text-base text-gray-800 mt-1 whitespace-pre-wrap">
+                {turn.translatedText || (pending.has(turn.id) && <span className="text-gray-300 italic">Translating...</span>)}
+              </p>
+              {turn.translatedText && !pending.has(turn.id) && (
+                <button
+                  onClick={() => playSpeech(turn.translatedText, turn.targetLanguage)}
+                  className="mt-1 text-[10px] font-bold uppercase tracking-wider text-indigo-400 hover:text-indigo-600"
+                >
+                  Replay
+                </button>
+              )}
+            </div>
+          ))}
+          <div ref={transcriptEndRef} />
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        {(['left', 'right'] as ConversationSide[]).map(side => (
+          <SideInput
+            key={side}
+            side={side}
+            language={languages[side]}
+            onLanguageChange={(code) => setLanguages(prev => ({ ...prev, [side]: code }))}
+            onSend={(text) => handleSend(side, text)}
+            onError={setError}
+          />
+        ))}
+      </div>
+
+      {error && (
+        <div role="alert" className="p-4 bg-red-50 border border-red-100 text-red-600 rounded-xl text-sm font-medium">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DictationSession, isDictationSupported, startDictation } from '../services/dictationService';
+import { TranslationError, classifyError } from '../services/requestService';
+
+interface DictationButtonProps {
+  // Language name hint for the transcriber; undefined means auto-detect
+  languageName?: string;
+  onTranscript: (text: string, isFinal: boolean) => void;
+  onListeningChange: (listening: boolean) => void;
+  onError: (error: TranslationError) => void;
+}
+
+type DictationStatus = 'idle' | 'starting' | 'listening' | 'finishing';
+
+export const DictationButton: React.FC<DictationButtonProps> = ({ languageName, onTranscript, onListeningChange, onError }) => {
+  const [status, setStatus] = useState<DictationStatus>('idle');
+  const sessionRef = useRef<DictationSession | null>(null);
+
+  // Drop the microphone if the component goes away mid-recording
+  useEffect(() => () => sessionRef.current?.cancel(), []);
+
+  if (!isDictationSupported()) return null;
+
+  const start = async () => {
+    setStatus('starting');
+    try {
+      sessionRef.current = await startDictation({
+        languageName,
+        onTranscript,
+        onError,
+      });
+      setStatus('listening');
+      onListeningChange(true);
+    } catch (err: any) {
+      setStatus('idle');
+      onError(err?.name === 'NotAllowedError'
+        ? new TranslationError('invalid-input', 'Microphone access was denied.', { cause: err })
+        : classifyError(err));
+    }
+  };
+
+  const stop = async () => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (!session) return;
+    setStatus('finishing');
+    await session.stop();
+    setStatus('idle');
+    onListeningChange(false);
+  };
+
+  const isActive = status === 'listening' || status === 'finishing';
+
+  return (
+    <button
+      onClick={isActive ? stop : start}
+      disabled={status === 'starting' || status === 'finishing'}
+      className={`p-2 rounded-lg transition-colors disabled:opacity-60 ${isActive ? 'bg-red-500 hover:bg-red-600 text-white animate-pulse' : 'bg-gray-100 hover:bg-gray-200 text-gray-500'}`}
+      title={isActive ? 'Stop dictation' : 'Dictate'}
+      aria-label={isActive ? 'Stop dictation' : 'Dictate'}
+      aria-pressed={isActive}
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+    </button>
+  );
+};
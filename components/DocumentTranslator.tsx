@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './Button';
+import { ErrorBanner } from './ErrorBanner';
+import {
+  ACCEPTED_EXTENSIONS,
+  TranslatableDocument,
+  detectFormat,
+  mimeTypeFor,
+  parseDocument,
+  translateDocument,
+} from '../services/documentService';
+import { ChunkProgress } from '../services/segmentService';
+import { downloadFile, withLanguageSuffix } from '../services/fileService';
+import { TranslationError, classifyError } from '../services/requestService';
+import { GlossaryEntry, TranslationStyle } from '../types';
+
+interface DocumentTranslatorProps {
+  sourceLang: string;
+  targetLang: string;
+  glossary: GlossaryEntry[];
+  style: TranslationStyle;
+}
+
+interface LoadedDocument {
+  fileName: string;
+  doc: TranslatableDocument;
+}
+
+export const DocumentTranslator: React.FC<DocumentTranslatorProps> = ({ sourceLang, targetLang, glossary, style }) => {
+  const [loaded, setLoaded] = useState<LoadedDocument | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ChunkProgress | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<TranslationError | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsTranslating(false);
+    setProgress(null);
+  };
+
+  // A finished translation no longer matches once either language changes
+  useEffect(() => {
+    cancel();
+    setResult(null);
+  }, [sourceLang, targetLang]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const loadFile = async (file: File) => {
+    cancel();
+    setResult(null);
+    setError(null);
+
+    const format = detectFormat(file.name);
+    if (!format) {
+      setError(classifyError(`Unsupported file type. Use one of: ${ACCEPTED_EXTENSIONS.join(', ')}`));
+      return;
+    }
+    try {
+      setLoaded({ fileName: file.name, doc: parseDocument(await file.text(), format) });
+    } catch (err: any) {
+      setLoaded(null);
+      setError(classifyError(`Could not read ${file.name}: ${err.message}`));
+    }
+  };
+
+  const handleTranslate = async () => {
+    if (!loaded) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsTranslating(true);
+    setResult(null);
+    setError(null);
+
+    try {
+      const translated = await translateDocument(loaded.doc, sourceLang, targetLang, {
+        signal: controller.signal,
+        glossary,
+        style,
+        onProgress: setProgress,
+      });
+      if (!controller.signal.aborted) setResult(translated);
+    } catch (err: any) {
+      if (err.name !== 'AbortError' && !controller.signal.aborted) {
+        setError(classifyError(err));
+        setProgress(null);
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsTranslating(false);
+      }
+    }
+  };
+
+  const handleDownload = () => {
+    if (!loaded || result === null) return;
+    downloadFile(result, withLanguageSuffix(loaded.fileName, targetLang), mimeTypeFor(loaded.doc.format));
+  };
+
+  const percent = progress && progress.totalChunks > 0
+    ? Math.round((progress.completedChunks / progress.totalChunks) * 100)
+    : 0;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          const file = e.dataTransfer.files[0];
+          if (file) loadFile(file);
+        }}
+        onClick={() => fileInputRef.current?.click()}
+        className={`bg-white rounded-2xl border-2 border-dashed p-10 text-center cursor-pointer transition-all ${isDragging ? 'border-indigo-400 bg-indigo-50/50' : 'border-gray-200 hover:border-indigo-300'}`}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadFile(file);
+            e.target.value = '';
+          }}
+        />
+        <p className="text-gray-700 font-medium">
+          {loaded ? loaded.fileName : 'Drop a file here or click to upload'}
+        </p>
+        <p className="text-xs text-gray-400 mt-1">
+          {loaded
+            ? `${loaded.doc.format.toUpperCase()} · ${loaded.doc.segments.length} translatable segments`
+            : 'Markdown, SRT/VTT subtitles, JSON i18n files and plain text'}
+        </p>
+      </div>
+
+      {loaded && (
+        <div className="flex items-center gap-3">
+          {isTranslating ? (
+            <Button variant="secondary" onClick={cancel}>Cancel</Button>
+          ) : (
+            <Button onClick={handleTranslate} disabled={loaded.doc.segments.length === 0}>
+              Translate document
+            </Button>
+          )}
+          {result !== null && (
+            <Button variant="secondary" onClick={handleDownload}>Download</Button>
+          )}
+          {progress && (
+            <div className="flex-1 flex items-center gap-3">
+              <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+              </div>
+              <span className="text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                {progress.completedChunks}/{progress.totalChunks} chunks
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {result !== null && (
+        <pre className="bg-indigo-50/30 rounded-2xl border border-indigo-100 p-6 max-h-[480px] overflow-auto text-sm leading-relaxed text-gray-800 whitespace-pre-wrap">
+          {result}
+        </pre>
+      )}
+
+      {error && (
+        <ErrorBanner
+          error={error}
+          onRetry={error.retryable && loaded ? handleTranslate : undefined}
+          onDismiss={() => setError(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { ErrorCategory, TranslationError } from '../services/requestService';
+
+interface ErrorBannerProps {
+  error: TranslationError;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+const TITLES: Record<ErrorCategory, string> = {
+  offline: 'Offline',
+  network: 'Connection problem',
+  timeout: 'Timed out',
+  'rate-limit': 'Rate limited',
+  auth: 'Not authorised',
+  server: 'Service error',
+  'invalid-response': 'Unreadable response',
+  'invalid-input': 'Invalid input',
+  unknown: 'Something went wrong',
+};
+
+// Temporary conditions are amber; ones that need fixing are red
+const TRANSIENT: ErrorCategory[] = ['offline', 'network', 'timeout', 'rate-limit'];
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onRetry, onDismiss }) => {
+  const tone = TRANSIENT.includes(error.category)
+    ? 'bg-amber-50 border-amber-100 text-amber-700'
+    : 'bg-red-50 border-red-100 text-red-600';
+
+  return (
+    <div role="alert" className={`p-4 border rounded-xl text-sm flex items-center gap-3 animate-in fade-in slide-in-from-top-2 ${tone}`}>
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
+      <div className="flex-1">
+        <p className="font-bold">{TITLES[error.category]}</p>
+        <p className="font-medium">{error.message}</p>
+      </div>
+      {onRetry && (
+        <button onClick={onRetry} className="px-3 py-1.5 rounded-lg bg-white/70 hover:bg-white text-xs font-bold uppercase tracking-wider">
+          Retry
+        </button>
+      )}
+      {onDismiss && (
+        <button onClick={onDismiss} className="text-xs font-bold uppercase tracking-wider opacity-60 hover:opacity-100">
+          Dismiss
+        </button>
+      )}
+    </div>
+  );
+};
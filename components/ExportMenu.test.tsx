@@ -0,0 +1,29 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ExportMenu } from './ExportMenu';
+
+describe('ExportMenu', () => {
+  it('exports only when the button is pressed', async () => {
+    const onExport = vi.fn();
+    const user = userEvent.setup();
+    render(<ExportMenu label="Export history" onExport={onExport} />);
+
+    const select = screen.getByRole('combobox', { name: 'Export history format' });
+    select.focus();
+    await user.keyboard('{ArrowDown}');
+    await user.selectOptions(select, 'csv');
+    expect(onExport).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Export history' }));
+    expect(onExport).toHaveBeenCalledExactlyOnceWith('csv');
+  });
+
+  it('disables both controls together', () => {
+    render(<ExportMenu disabled onExport={() => {}} />);
+    expect(screen.getByRole('combobox', { name: 'Export format' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Export' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { EXPORT_FORMATS, ExportFormat } from '../services/exportService';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+  label?: string;
+}
+
+// Choosing a format only selects it, so arrowing through the list doesn't
+// start downloads; the button exports
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled, label = 'Export' }) => {
+  const [format, setFormat] = useState<ExportFormat>('txt');
+
+  return (
+    <div className="flex items-center">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        disabled={disabled}
+        aria-label={`${label} format`}
+        className="bg-white border border-gray-200 rounded-l-lg px-2 py-1.5 text-xs font-medium text-gray-600 outline-none focus:ring-2 focus:ring-indigo-500 disabled:text-gray-300"
+      >
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(option => (
+          <option key={option} value={option}>{EXPORT_FORMATS[option].label}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => onExport(format)}
+        disabled={disabled}
+        aria-label={label}
+        className="bg-white border border-l-0 border-gray-200 rounded-r-lg px-2 py-1.5 text-xs font-semibold text-indigo-600 hover:bg-indigo-50 outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 disabled:text-gray-300 disabled:hover:bg-white"
+      >
+        Export
+      </button>
+    </div>
+  );
+};
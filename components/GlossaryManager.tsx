@@ -0,0 +1,160 @@
+import React, { useId, useRef, useState } from 'react';
+import { Button } from './Button';
+import { LanguageSelector } from './LanguageSelector';
+import { GlossaryEntry } from '../types';
+import { getLanguages } from '../services/languageService';
+import {
+  createEntry,
+  entriesForPair,
+  exportCsv,
+  exportTbx,
+  importCsv,
+  importTbx,
+  mergeEntries,
+} from '../services/glossaryService';
+import { downloadFile } from '../services/fileService';
+import { useFocusTrap } from './useFocusTrap';
+
+interface GlossaryManagerProps {
+  entries: GlossaryEntry[];
+  sourceLang: string;
+  targetLang: string;
+  onChange: (entries: GlossaryEntry[]) => void;
+  onClose: () => void;
+}
+
+export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ entries, sourceLang, targetLang, onChange, onClose }) => {
+  // Entries always belong to a concrete pair, so auto-detect falls back to English
+  const [pairSource, setPairSource] = useState(sourceLang === 'auto' ? 'en' : sourceLang);
+  const [pairTarget, setPairTarget] = useState(targetLang);
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [targetTerm, setTargetTerm] = useState('');
+  const [doNotTranslate, setDoNotTranslate] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+  useFocusTrap(dialogRef);
+
+  const pairEntries = entriesForPair(entries, pairSource, pairTarget);
+  const canAdd = sourceTerm.trim() && (doNotTranslate || targetTerm.trim());
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    onChange(mergeEntries(entries, [createEntry(pairSource, pairTarget, sourceTerm, targetTerm, doNotTranslate)]));
+    setSourceTerm('');
+    setTargetTerm('');
+    setDoNotTranslate(false);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const text = await file.text();
+      const imported = /\.(tbx|xml)$/i.test(file.name) ? importTbx(text) : importCsv(text);
+      onChange(mergeEntries(entries, imported));
+      setMessage(`Imported ${imported.length} ${imported.length === 1 ? 'entry' : 'entries'} from ${file.name}`);
+    } catch (err: any) {
+      setMessage(`Import failed: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-gray-900/30 flex items-start justify-center p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="bg-white rounded-2xl shadow-xl border border-gray-200 w-full max-w-2xl mt-16 p-6 flex flex-col gap-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id={titleId} className="text-xl font-bold text-gray-800">Glossary</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close" aria-label="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <LanguageSelector label="Source" languages={getLanguages()} value={pairSource} onChange={setPairSource} />
+          <LanguageSelector label="Target" languages={getLanguages()} value={pairTarget} onChange={setPairTarget} />
+        </div>
+
+        <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-2 md:items-center">
+          <input
+            value={sourceTerm}
+            onChange={(e) => setSourceTerm(e.target.value)}
+            placeholder="Source term"
+            className="flex-1 bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <input
+            value={doNotTranslate ? sourceTerm : targetTerm}
+            onChange={(e) => setTargetTerm(e.target.value)}
+            disabled={doNotTranslate}
+            placeholder="Target term"
+            className="flex-1 bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-gray-50 disabled:text-gray-400"
+          />
+          <label className="flex items-center gap-1.5 text-xs font-medium text-gray-500 whitespace-nowrap">
+            <input type="checkbox" checked={doNotTranslate} onChange={(e) => setDoNotTranslate(e.target.checked)} />
+            Do not translate
+          </label>
+          <Button type="submit" disabled={!canAdd}>Add</Button>
+        </form>
+
+        <div className="border border-gray-100 rounded-xl divide-y divide-gray-100 max-h-72 overflow-y-auto">
+          {pairEntries.length === 0 ? (
+            <p className="p-4 text-sm text-gray-400 italic">No glossary entries for this language pair yet.</p>
+          ) : (
+            pairEntries.map(entry => (
+              <div key={entry.id} className="flex items-center gap-3 px-4 py-2 text-sm group">
+                <span className="flex-1 font-medium text-gray-800">{entry.sourceTerm}</span>
+                <span className="text-gray-300">→</span>
+                <span className="flex-1 text-gray-600">
+                  {entry.doNotTranslate ? <span className="text-[10px] font-bold uppercase tracking-wider text-amber-500">Do not translate</span> : entry.targetTerm}
+                </span>
+                <button
+                  onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                  className="text-xs font-semibold text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-500 transition-all"
+                >
+                  Remove
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tbx,.xml"
+            className="hidden"
+            tabIndex={-1}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>Import CSV / TBX</Button>
+          <Button
+            variant="ghost"
+            disabled={entries.length === 0}
+            onClick={() => downloadFile(exportCsv(entries), 'glossary.csv', 'text/csv')}
+          >
+            Export CSV
+          </Button>
+          <Button
+            variant="ghost"
+            disabled={entries.length === 0}
+            onClick={() => downloadFile(exportTbx(entries), 'glossary.tbx', 'application/x-tbx+xml')}
+          >
+            Export TBX
+          </Button>
+          {message && <span className="text-xs text-gray-500">{message}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+
+export interface Highlight {
+  start: number;
+  end: number;
+  className: string;
+  title?: string;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: Highlight[];
+}
+
+// Renders `text` with the given character ranges wrapped in <mark>.
+// Overlapping ranges are resolved in favour of the one that starts first.
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, highlights }) => {
+  const sorted = [...highlights]
+    .filter(h => h.end > h.start)
+    .sort((a, b) => a.start - b.start);
+
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+  sorted.forEach((h, i) => {
+    if (h.start < cursor) return;
+    if (h.start > cursor) nodes.push(text.slice(cursor, h.start));
+    nodes.push(
+      <mark key={i} className={h.className} title={h.title}>
+        {text.slice(h.start, h.end)}
+      </mark>
+    );
+    cursor = h.end;
+  });
+  if (cursor < text.length) nodes.push(text.slice(cursor));
+
+  return <>{nodes}</>;
+};
@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { HistoryPanel } from './HistoryPanel';
+import { HistoryItem } from '../types';
+
+const item: HistoryItem = {
+  id: 'a',
+  timestamp: Date.now(),
+  sourceText: 'Hello',
+  translatedText: 'Hallo',
+  sourceLanguage: 'en',
+  targetLanguage: 'de',
+};
+
+const setup = () => {
+  const props = {
+    onSelect: vi.fn(),
+    onTogglePin: vi.fn(),
+    onDelete: vi.fn(),
+    onClear: vi.fn(),
+    onExport: vi.fn(),
+  };
+  render(<HistoryPanel items={[item]} {...props} />);
+  return { ...props, user: userEvent.setup(), card: screen.getByRole('button', { name: /^Open translation/ }) };
+};
+
+describe('HistoryPanel', () => {
+  it('opens an entry from the keyboard with Enter or Space', async () => {
+    const { user, card, onSelect } = setup();
+    card.focus();
+    await user.keyboard('{Enter}');
+    await user.keyboard(' ');
+    expect(onSelect).toHaveBeenCalledTimes(2);
+    expect(onSelect).toHaveBeenCalledWith(item);
+  });
+
+  it('reaches the pin and delete buttons by Tab without opening the entry', async () => {
+    const { user, card, onSelect, onTogglePin, onDelete } = setup();
+    card.focus();
+    await user.tab();
+    const pin = within(card).getByRole('button', { name: 'Pin translation' });
+    expect(pin).toHaveFocus();
+    await user.keyboard('{Enter}');
+    await user.tab();
+    expect(within(card).getByRole('button', { name: 'Delete translation' })).toHaveFocus();
+    await user.keyboard(' ');
+
+    expect(onTogglePin).toHaveBeenCalledWith('a');
+    expect(onDelete).toHaveBeenCalledWith('a');
+    expect(onSelect).not.toHaveBeenCalled();
+  });
+
+  it('shows the hover-only buttons while the card has keyboard focus', () => {
+    const { card } = setup();
+    for (const name of ['Pin translation', 'Delete translation']) {
+      const button = within(card).getByRole('button', { name });
+      expect(button).toHaveClass('opacity-0', 'group-focus-within:opacity-100', 'focus-visible:opacity-100');
+    }
+  });
+});
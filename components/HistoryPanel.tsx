@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { ExportMenu } from './ExportMenu';
+import { ExportFormat } from '../services/exportService';
+import { searchHistory } from '../services/historyService';
+import { findLanguage, languageName, textDirection } from '../services/languageService';
+import { HistoryItem } from '../types';
+
+interface HistoryPanelProps {
+  items: HistoryItem[];
+  onSelect: (item: HistoryItem) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  // Receives the entries matching the current search
+  onExport: (items: HistoryItem[], format: ExportFormat) => void;
+}
+
+// History can hold thousands of entries; render them a page at a time
+const PAGE_SIZE = 20;
+
+const sourceCode = (item: HistoryItem) =>
+  item.sourceLanguage === 'auto' ? item.detectedLanguage : item.sourceLanguage;
+
+const sourceLabel = (item: HistoryItem) =>
+  item.sourceLanguage === 'auto' && item.detectedLanguage
+    ? findLanguage(item.detectedLanguage)?.name ?? item.detectedLanguage.toUpperCase()
+    : languageName(item.sourceLanguage);
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ items, onSelect, onTogglePin, onDelete, onClear, onExport }) => {
+  const [query, setQuery] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  if (items.length === 0) return null;
+
+  // Pinned entries float to the top, newest first within each group
+  const matches = [...searchHistory(items, query)].sort(
+    (a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp
+  );
+  const visible = matches.slice(0, visibleCount);
+
+  return (
+    <div className="mt-16">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <h2 className="text-xl font-bold text-gray-800">Recent</h2>
+          <span className="px-2 py-0.5 bg-gray-100 text-gray-500 rounded text-[10px] font-bold uppercase">{items.length}</span>
+        </div>
+        <div className="flex items-center gap-4">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setVisibleCount(PAGE_SIZE);
+            }}
+            placeholder="Search history..."
+            className="bg-white border border-gray-200 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all outline-none"
+          />
+          <ExportMenu
+            label="Export history"
+            disabled={matches.length === 0}
+            onExport={(format) => onExport(matches, format)}
+          />
+          <button
+            className="text-xs font-semibold text-gray-400 hover:text-red-500 transition-colors"
+            onClick={onClear}
+          >
+            Clear History
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">No translations match "{query}".</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {visible.map((item) => (
+            <div
+              key={item.id}
+              role="button"
+              tabIndex={0}
+              aria-label={`Open translation into ${languageName(item.targetLanguage)}: ${item.translatedText}`}
+              className={`bg-white p-5 rounded-2xl border shadow-sm hover:border-indigo-200 hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400 transition-all group cursor-pointer ${item.pinned ? 'border-amber-200' : 'border-gray-100'}`}
+              onClick={() => onSelect(item)}
+              onKeyDown={(e) => {
+                // Keys on the pin and delete buttons inside belong to them
+                if (e.target !== e.currentTarget || (e.key !== 'Enter' && e.key !== ' ')) return;
+                e.preventDefault();
+                onSelect(item);
+              }}
+            >
+              <div className="flex justify-between items-start mb-3">
+                <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-indigo-500">
+                  <span>{sourceLabel(item)}</span>
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 opacity-50" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10.293 3.293a1 1 0 011.414 0l6 6a1 1 0 010 1.414l-6 6a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-4.293-4.293a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                  <span>{languageName(item.targetLanguage)}</span>
+                  {item.approved && (
+                    <span
+                      className="px-1.5 py-0.5 bg-emerald-50 text-emerald-600 rounded normal-case tracking-normal"
+                      title="Post-edited and approved"
+                    >
+                      Approved
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="text-[10px] text-gray-300 font-medium mr-1">
+                    {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onTogglePin(item.id); }}
+                    className={`p-1 rounded transition-colors ${item.pinned ? 'text-amber-500' : 'text-gray-300 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 focus-visible:opacity-100 hover:text-amber-500'}`}
+                    title={item.pinned ? 'Unpin' : 'Pin'}
+                    aria-label={item.pinned ? 'Unpin translation' : 'Pin translation'}
+                    aria-pressed={!!item.pinned}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" /></svg>
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(item.id); }}
+                    className="p-1 rounded text-gray-300 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 focus-visible:opacity-100 hover:text-red-500 transition-colors"
+                    title="Delete"
+                    aria-label="Delete translation"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                  </button>
+                </div>
+              </div>
+              {item.sourceText && (
+                <p
+                  className="text-gray-400 text-xs line-clamp-1 mb-1"
+                  lang={sourceCode(item)}
+                  dir={sourceCode(item) ? textDirection(sourceCode(item)) : 'auto'}
+                >
+                  {item.sourceText}
+                </p>
+              )}
+              <p
+                className="text-gray-800 text-sm font-medium line-clamp-2 leading-relaxed"
+                lang={item.targetLanguage}
+                dir={textDirection(item.targetLanguage)}
+              >
+                {item.translatedText}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {matches.length > visible.length && (
+        <div className="flex justify-center mt-6">
+          <button
+            className="text-xs font-semibold text-gray-400 hover:text-indigo-600 transition-colors"
+            onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+          >
+            Show more ({matches.length - visible.length} remaining)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
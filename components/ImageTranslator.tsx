@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './Button';
+import { ErrorBanner } from './ErrorBanner';
+import { extractImageText } from '../services/translationService';
+import { translateSegments } from '../services/segmentService';
+import { ACCEPTED_IMAGE_TYPES, blocksToText, imageFromTransfer, validateImage } from '../services/imageService';
+import { TranslationError, classifyError } from '../services/requestService';
+import { GlossaryEntry, TextBlock, TranslationStyle } from '../types';
+
+interface ImageTranslatorProps {
+  sourceLang: string;
+  targetLang: string;
+  glossary: GlossaryEntry[];
+  style: TranslationStyle;
+  // An image pasted elsewhere in the app, e.g. into the text box
+  initialImage?: File | null;
+}
+
+type Status = 'idle' | 'extracting' | 'translating' | 'done';
+type OverlayView = 'translation' | 'original';
+
+const STATUS_LABELS: Record<Status, string> = {
+  idle: '',
+  extracting: 'Reading text from the image...',
+  translating: 'Translating...',
+  done: '',
+};
+
+export const ImageTranslator: React.FC<ImageTranslatorProps> = ({ sourceLang, targetLang, glossary, style, initialImage }) => {
+  const [image, setImage] = useState<{ name: string; url: string; file: File } | null>(null);
+  const [blocks, setBlocks] = useState<TextBlock[]>([]);
+  const [translations, setTranslations] = useState<string[]>([]);
+  const [status, setStatus] = useState<Status>('idle');
+  const [view, setView] = useState<OverlayView>('translation');
+  const [imageHeight, setImageHeight] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<TranslationError | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  };
+
+  const translateBlocks = async (found: TextBlock[], controller: AbortController) => {
+    setStatus('translating');
+    const partial = found.map(() => '');
+    setTranslations(partial);
+    const results = await translateSegments(found.map(b => b.text), sourceLang, targetLang, {
+      signal: controller.signal,
+      glossary,
+      style,
+      onPartial: (i, text) => {
+        if (controller.signal.aborted) return;
+        partial[i] = text;
+        setTranslations([...partial]);
+      },
+    });
+    if (!controller.signal.aborted) setTranslations(results);
+  };
+
+  // Extraction and translation share one controller, so a new image or a
+  // language change stops whichever step is running
+  const run = async (step: (controller: AbortController) => Promise<void>) => {
+    cancel();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    try {
+      await step(controller);
+      if (!controller.signal.aborted) setStatus('done');
+    } catch (err: any) {
+      if (err.name !== 'AbortError' && !controller.signal.aborted) {
+        setError(classifyError(err));
+        setStatus('idle');
+      }
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  };
+
+  const processImage = (file: File) => run(async (controller) => {
+    setStatus('extracting');
+    setBlocks([]);
+    setTranslations([]);
+    const found = await extractImageText(file, { signal: controller.signal });
+    controller.signal.throwIfAborted();
+    setBlocks(found);
+    if (found.length > 0) await translateBlocks(found, controller);
+  });
+
+  const loadImage = (file: File) => {
+    const problem = validateImage(file);
+    if (problem) {
+      setError(classifyError(problem));
+      return;
+    }
+    setImage({ name: file.name || 'Pasted image', url: URL.createObjectURL(file), file });
+    processImage(file);
+  };
+
+  // Object URLs hold the image in memory until revoked
+  useEffect(() => () => {
+    if (image) URL.revokeObjectURL(image.url);
+  }, [image]);
+
+  useEffect(() => {
+    if (initialImage) loadImage(initialImage);
+  }, [initialImage]);
+
+  // Extracted text doesn't depend on the languages; only the translation is redone
+  useEffect(() => {
+    if (blocks.length > 0) run(controller => translateBlocks(blocks, controller));
+  }, [sourceLang, targetLang, glossary, style]);
+
+  // Screenshots can be pasted anywhere while this mode is open
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = imageFromTransfer(e.clipboardData);
+      if (!file) return;
+      e.preventDefault();
+      loadImage(file);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  });
+
+  useEffect(() => cancel, []);
+
+  // Overlay text is sized to its box, so follow the rendered image size
+  useEffect(() => {
+    const element = imageRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setImageHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [image]);
+
+  const busy = status === 'extracting' || status === 'translating';
+  const extractedText = blocksToText(blocks.map(b => b.text));
+  const translatedText = blocksToText(translations);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          const file = imageFromTransfer(e.dataTransfer);
+          if (file) loadImage(file);
+        }}
+        onClick={() => fileInputRef.current?.click()}
+        className={`bg-white rounded-2xl border-2 border-dashed p-8 text-center cursor-pointer transition-all ${isDragging ? 'border-indigo-400 bg-indigo-50/50' : 'border-gray-200 hover:border-indigo-300'}`}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadImage(file);
+            e.target.value = '';
+          }}
+        />
+        <p className="text-gray-700 font-medium">
+          {image ? image.name : 'Paste a screenshot, drop a photo or click to upload'}
+        </p>
+        <p className="text-xs text-gray-400 mt-1">
+          {busy ? STATUS_LABELS[status] : status === 'done'
+            ? `${blocks.length} text ${blocks.length === 1 ? 'block' : 'blocks'} found`
+            : 'Signs, screenshots and scanned pages · PNG, JPEG, WebP or HEIC'}
+        </p>
+      </div>
+
+      {image && (
+        <div className="grid grid-cols-1 lg:grid-cols-[3fr_2fr] gap-6">
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <div className="flex gap-1 p-1 bg-gray-100 rounded-xl w-fit">
+                {(['translation', 'original'] as OverlayView[]).map(v => (
+                  <button
+                    key={v}
+                    onClick={() => setView(v)}
+                    className={`px-3 py-1 rounded-lg text-xs font-semibold capitalize transition-all ${view === v ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {v}
+                  </button>
+                ))}
+              </div>
+              {busy && <Button variant="ghost" className="text-xs" onClick={() => { cancel(); setStatus('idle'); }}>Cancel</Button>}
+            </div>
+            <div className="relative rounded-2xl overflow-hidden border border-gray-200 bg-gray-50">
+              <img ref={imageRef} src={image.url} alt={image.name} className="w-full h-auto block" />
+              {view === 'translation' && blocks.map((block, i) => translations[i] && (
+                <div
+                  key={i}
+                  className="absolute flex items-center justify-center text-center bg-white/90 text-gray-900 leading-tight overflow-hidden rounded-sm shadow-sm"
+                  style={{
+                    left: `${block.box.x * 100}%`,
+                    top: `${block.box.y * 100}%`,
+                    width: `${block.box.width * 100}%`,
+                    height: `${block.box.height * 100}%`,
+                    fontSize: Math.min(40, Math.max(9, block.box.height * imageHeight * 0.6)),
+                  }}
+                  title={block.text}
+                >
+                  {translations[i]}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-4">
+            <TextList title="Extracted text" text={extractedText} />
+            <TextList title="Translation" text={translatedText} />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <ErrorBanner
+          error={error}
+          onRetry={error.retryable && image ? () => processImage(image.file) : undefined}
+          onDismiss={() => setError(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+const TextList: React.FC<{ title: string; text: string }> = ({ title, text }) => (
+  <div className="bg-white rounded-2xl border border-gray-200 shadow-sm flex flex-col">
+    <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+      <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{title}</span>
+      <button
+        onClick={() => navigator.clipboard.writeText(text)}
+        disabled={!text}
+        className="text-xs font-semibold text-gray-400 hover:text-indigo-600 disabled:opacity-30 transition-colors"
+      >
+        Copy
+      </button>
+    </div>
+    <p className="px-4 py-3 text-sm text-gray-800 whitespace-pre-wrap max-h-[240px] overflow-y-auto min-h-[3rem]">
+      {text || <span className="text-gray-300 italic">Nothing yet</span>}
+    </p>
+  </div>
+);
@@ -1,29 +1,212 @@
-
-import React from 'react';
+import React, { useEffect, useId, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import { Language } from '../types';
+import {
+  getLanguagePreferences,
+  recordRecentLanguage,
+  subscribeLanguagePreferences,
+  toggleFavouriteLanguage,
+} from '../services/languageService';
+import { Shortcut, ariaShortcut, formatShortcut } from '../services/shortcutService';
 
 interface LanguageSelectorProps {
   languages: Language[];
   value: string;
   onChange: (value: string) => void;
   label: string;
+  // Advertised on the button; the parent handles the key itself
+  shortcut?: Shortcut;
+  // Opens the list whenever it changes to a new non-zero value
+  openRequest?: number;
+}
+
+interface OptionGroup {
+  title?: string;
+  options: Language[];
 }
 
-export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ languages, value, onChange, label }) => {
+const matchesQuery = (lang: Language, query: string) => {
+  const q = query.trim().toLowerCase();
+  return (
+    lang.name.toLowerCase().includes(q) ||
+    !!lang.nativeName?.toLowerCase().includes(q) ||
+    lang.code.toLowerCase().startsWith(q)
+  );
+};
+
+export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ languages, value, onChange, label, shortcut, openRequest }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const preferences = useSyncExternalStore(subscribeLanguagePreferences, getLanguagePreferences);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const listId = useId();
+
+  const selected = languages.find(l => l.code === value);
+
+  // Favourites and recents are only listed while not searching
+  const groups = useMemo<OptionGroup[]>(() => {
+    if (query.trim()) return [{ options: languages.filter(l => matchesQuery(l, query)) }];
+    const byCode = (codes: string[]) => codes.flatMap(code => languages.filter(l => l.code === code));
+    const favourites = byCode(preferences.favourites);
+    const recent = byCode(preferences.recent).filter(l => !preferences.favourites.includes(l.code));
+    return [
+      { title: 'Favourites', options: favourites },
+      { title: 'Recent', options: recent },
+      { title: favourites.length || recent.length ? 'All languages' : undefined, options: languages },
+    ].filter(group => group.options.length > 0);
+  }, [languages, preferences, query]);
+
+  const flatOptions = groups.flatMap(group => group.options);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex, open]);
+
+  const openList = () => {
+    setQuery('');
+    setActiveIndex(0);
+    setOpen(true);
+  };
+
+  useEffect(() => {
+    if (openRequest) openList();
+  }, [openRequest]);
+
+  const close = () => {
+    setOpen(false);
+    buttonRef.current?.focus();
+  };
+
+  const select = (code: string) => {
+    onChange(code);
+    recordRecentLanguage(code);
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(flatOptions.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const option = flatOptions[activeIndex];
+      if (option) select(option.code);
+    } else if (e.key === 'Escape') {
+      close();
+    }
+  };
+
+  let optionIndex = 0;
+
   return (
-    <div className="flex flex-col gap-1 w-full">
-      <label className="text-xs font-semibold text-gray-500 uppercase tracking-wider">{label}</label>
-      <select 
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        className="w-full bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all outline-none"
+    <div ref={containerRef} className="relative flex flex-col gap-1 w-full">
+      <label htmlFor={`${listId}-button`} className="text-xs font-semibold text-gray-500 uppercase tracking-wider">{label}</label>
+      <button
+        ref={buttonRef}
+        id={`${listId}-button`}
+        type="button"
+        onClick={() => (open ? setOpen(false) : openList())}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        aria-keyshortcuts={shortcut && ariaShortcut(shortcut)}
+        title={shortcut && `${label} (${formatShortcut(shortcut)})`}
+        className="w-full flex items-center justify-between gap-2 bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm text-left focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all outline-none"
       >
-        {languages.map(lang => (
-          <option key={lang.code} value={lang.code}>
-            {lang.name}
-          </option>
-        ))}
-      </select>
+        <span className="truncate">
+          {selected?.name ?? value}
+          {selected?.nativeName && selected.nativeName !== selected.name && (
+            <span className="text-gray-400 ml-2" lang={selected.code}>{selected.nativeName}</span>
+          )}
+        </span>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-gray-400 shrink-0" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-0 right-0 mt-1 z-20 bg-white border border-gray-200 rounded-xl shadow-lg overflow-hidden">
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search languages..."
+            role="combobox"
+            aria-expanded
+            aria-controls={listId}
+            aria-activedescendant={flatOptions[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+            className="w-full px-3 py-2 text-sm border-b border-gray-100 outline-none"
+          />
+          <ul ref={listRef} id={listId} role="listbox" aria-label={label} className="max-h-72 overflow-y-auto py-1">
+            {flatOptions.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-400 italic">No languages match "{query}".</li>
+            )}
+            {groups.map((group, g) => (
+              <React.Fragment key={group.title ?? g}>
+                {group.title && (
+                  <li role="presentation" className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-400">
+                    {group.title}
+                  </li>
+                )}
+                {group.options.map(lang => {
+                  const index = optionIndex++;
+                  const isFavourite = preferences.favourites.includes(lang.code);
+                  return (
+                    <li
+                      key={`${group.title}-${lang.code}`}
+                      id={`${listId}-${index}`}
+                      role="option"
+                      aria-selected={lang.code === value}
+                      data-active={index === activeIndex}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      onClick={() => select(lang.code)}
+                      className={`flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer ${index === activeIndex ? 'bg-indigo-50' : ''} ${lang.code === value ? 'font-semibold text-indigo-600' : 'text-gray-700'}`}
+                    >
+                      <span className="flex-1 truncate">
+                        {lang.name}
+                        {lang.nativeName && lang.nativeName !== lang.name && (
+                          <span className="text-gray-400 font-normal ml-2" lang={lang.code}>{lang.nativeName}</span>
+                        )}
+                      </span>
+                      {lang.code !== 'auto' && (
+                        <>
+                          <span className="text-[10px] text-gray-300 font-mono">{lang.code}</span>
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleFavouriteLanguage(lang.code);
+                            }}
+                            className={`p-0.5 rounded transition-colors ${isFavourite ? 'text-amber-500' : 'text-gray-300 hover:text-amber-500'}`}
+                            aria-label={isFavourite ? `Remove ${lang.name} from favourites` : `Add ${lang.name} to favourites`}
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor"><path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" /></svg>
+                          </button>
+                        </>
+                      )}
+                    </li>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { MemoryMatch, clearMemory, exportTmx, loadAllMemory } from '../services/translationMemoryService';
+import { downloadFile } from '../services/fileService';
+
+export interface MemorySuggestion {
+  segmentIndex: number;
+  sourceText: string;
+  match: MemoryMatch;
+}
+
+interface MemoryPanelProps {
+  suggestions: MemorySuggestion[];
+  reuse: { reused: number; total: number } | null;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onApply: (suggestion: MemorySuggestion) => void;
+}
+
+export const MemoryPanel: React.FC<MemoryPanelProps> = ({ suggestions, reuse, threshold, onThresholdChange, onApply }) => {
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    try {
+      const entries = await loadAllMemory();
+      if (entries.length === 0) {
+        setMessage('Translation memory is empty');
+        return;
+      }
+      downloadFile(exportTmx(entries), 'lingosync-memory.tmx', 'application/x-tmx+xml');
+      setMessage(null);
+    } catch (err: any) {
+      setMessage(`Export failed: ${err.message}`);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearMemory();
+      setMessage('Translation memory cleared');
+    } catch (err: any) {
+      setMessage(`Could not clear memory: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-2xl border border-gray-200 shadow-sm p-5 flex flex-col gap-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <h2 className="text-sm font-bold text-gray-800">Translation Memory</h2>
+          {reuse && reuse.total > 0 && (
+            <span className="px-2 py-0.5 bg-indigo-50 text-indigo-600 rounded text-[10px] font-bold uppercase">
+              {reuse.reused}/{reuse.total} segments reused
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs font-medium text-gray-500">
+            Fuzzy match
+            <input
+              type="range"
+              min={0.5}
+              max={0.99}
+              step={0.01}
+              value={threshold}
+              onChange={(e) => onThresholdChange(Number(e.target.value))}
+            />
+            <span className="w-8 text-right tabular-nums">{Math.round(threshold * 100)}%</span>
+          </label>
+          <Button variant="ghost" className="text-xs" onClick={handleExport}>Export TMX</Button>
+          <Button variant="ghost" className="text-xs" onClick={handleClear}>Clear</Button>
+        </div>
+      </div>
+
+      {message && <p className="text-xs text-gray-500">{message}</p>}
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-col divide-y divide-gray-100">
+          {suggestions.map(suggestion => (
+            <div key={suggestion.segmentIndex} className="py-3 flex items-start gap-4 text-sm">
+              <span className="px-2 py-0.5 bg-amber-50 text-amber-700 rounded text-[10px] font-bold tabular-nums">
+                {Math.round(suggestion.match.score * 100)}%
+              </span>
+              <div className="flex-1 flex flex-col gap-1">
+                <p className="text-gray-400 text-xs">{suggestion.match.entry.sourceText}</p>
+                <p className="text-gray-800">{suggestion.match.entry.targetText}</p>
+              </div>
+              <Button variant="secondary" className="text-xs" onClick={() => onApply(suggestion)}>Use</Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './Button';
+import { GlossaryEntry, TranslationStyle } from '../types';
+import {
+  MAX_CONCURRENCY,
+  TargetResult,
+  TargetStatus,
+  exportResultsCsv,
+  exportResultsJson,
+  getConcurrency,
+  setConcurrency,
+  translateToTargets,
+} from '../services/multiTargetService';
+import { downloadFile } from '../services/fileService';
+import { getLanguages, languageName, textDirection } from '../services/languageService';
+
+interface MultiTargetTranslatorProps {
+  sourceLang: string;
+  initialText: string;
+  initialTarget: string;
+  glossary: GlossaryEntry[];
+  style: TranslationStyle;
+}
+
+type ResultLayout = 'tabs' | 'columns';
+
+const STATUS_STYLES: Record<TargetStatus, string> = {
+  queued: 'bg-gray-100 text-gray-400',
+  streaming: 'bg-indigo-50 text-indigo-600 animate-pulse',
+  done: 'bg-emerald-50 text-emerald-600',
+  error: 'bg-red-50 text-red-600',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+interface ResultCardProps {
+  result: TargetResult;
+  onRetry: () => void;
+}
+
+const ResultCard: React.FC<ResultCardProps> = ({ result, onRetry }) => {
+  const [copied, setCopied] = useState(false);
+  const isBusy = result.status === 'queued' || result.status === 'streaming';
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(result.text);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="bg-indigo-50/30 rounded-2xl border border-indigo-100 p-4 flex flex-col gap-3 min-h-[160px]">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-bold text-gray-800">{languageName(result.languageCode)}</span>
+          <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${STATUS_STYLES[result.status]}`}>
+            {result.status}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" className="text-xs" disabled={!result.text || isBusy} onClick={copy}>
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+          <Button variant="ghost" className="text-xs" disabled={isBusy} onClick={onRetry}>Retry</Button>
+        </div>
+      </div>
+      <p
+        className="text-base leading-relaxed text-gray-800 whitespace-pre-wrap"
+        lang={result.languageCode}
+        dir={textDirection(result.languageCode)}
+      >
+        {result.text || (isBusy && <span className="text-gray-300 italic">Waiting for translation...</span>)}
+      </p>
+      {result.error && <p role="alert" className="text-xs text-red-600">{result.error}</p>}
+    </div>
+  );
+};
+
+export const MultiTargetTranslator: React.FC<MultiTargetTranslatorProps> = ({ sourceLang, initialText, initialTarget, glossary, style }) => {
+  const [text, setText] = useState(initialText);
+  const [targets, setTargets] = useState<string[]>([initialTarget]);
+  const [results, setResults] = useState<Record<string, TargetResult>>({});
+  const [layout, setLayout] = useState<ResultLayout>('tabs');
+  const [activeTab, setActiveTab] = useState(initialTarget);
+  const [concurrency, setConcurrencyState] = useState(getConcurrency);
+  // The text and source language the current results were produced from
+  const [translatedFrom, setTranslatedFrom] = useState<{ text: string; sourceLang: string } | null>(null);
+  const controllersRef = useRef(new Set<AbortController>());
+
+  useEffect(() => () => controllersRef.current.forEach(c => c.abort()), []);
+
+  const isRunning = Object.values(results).some((r: TargetResult) => r.status === 'queued' || r.status === 'streaming');
+  const orderedResults = targets.map(code => results[code]).filter((r): r is TargetResult => !!r);
+
+  const toggleTarget = (code: string) =>
+    setTargets(prev => (prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]));
+
+  const updateConcurrency = (limit: number) => {
+    setConcurrencyState(limit);
+    setConcurrency(limit);
+  };
+
+  const run = async (languageCodes: string[], source: { text: string; sourceLang: string }) => {
+    const controller = new AbortController();
+    controllersRef.current.add(controller);
+    try {
+      await translateToTargets(source.text, source.sourceLang, languageCodes, {
+        signal: controller.signal,
+        glossary,
+        style,
+        concurrency,
+        onUpdate: (result) => setResults(prev => ({ ...prev, [result.languageCode]: result })),
+      });
+    } finally {
+      controllersRef.current.delete(controller);
+    }
+  };
+
+  const handleTranslateAll = () => {
+    if (!text.trim() || targets.length === 0) return;
+    controllersRef.current.forEach(c => c.abort());
+    const source = { text, sourceLang };
+    setTranslatedFrom(source);
+    setResults({});
+    if (!targets.includes(activeTab)) setActiveTab(targets[0]);
+    run(targets, source);
+  };
+
+  // Retries reuse the original input so the set stays consistent
+  const handleRetry = (languageCode: string) => {
+    if (translatedFrom) run([languageCode], translatedFrom);
+  };
+
+  const cancelAll = () => controllersRef.current.forEach(c => c.abort());
+
+  const exportAs = (format: 'csv' | 'json') => {
+    if (!translatedFrom) return;
+    const { text: sourceText, sourceLang: source } = translatedFrom;
+    if (format === 'csv') {
+      downloadFile(exportResultsCsv(source, sourceText, orderedResults), 'translations.csv', 'text/csv');
+    } else {
+      downloadFile(exportResultsJson(source, sourceText, orderedResults), 'translations.json', 'application/json');
+    }
+  };
+
+  const activeResult = results[activeTab];
+  const hasCompleted = orderedResults.some(r => r.status === 'done');
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-5 flex flex-col gap-4">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Text to translate into every selected language..."
+          className="w-full h-32 resize-none outline-none text-base leading-relaxed text-gray-800 placeholder-gray-400"
+        />
+        <div className="flex flex-wrap gap-1.5">
+          {getLanguages().map(lang => (
+            <button
+              key={lang.code}
+              onClick={() => toggleTarget(lang.code)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${targets.includes(lang.code) ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-200 text-gray-500 hover:border-indigo-300'}`}
+            >
+              {lang.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {isRunning ? (
+            <Button variant="secondary" onClick={cancelAll}>Cancel</Button>
+          ) : (
+            <Button onClick={handleTranslateAll} disabled={!text.trim() || targets.length === 0}>
+              Translate into {targets.length} {targets.length === 1 ? 'language' : 'languages'}
+            </Button>
+          )}
+          <label className="flex items-center gap-2 text-xs font-medium text-gray-500">
+            Parallel requests
+            <input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => updateConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-14 bg-white border border-gray-200 rounded px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <div className="ml-auto flex items-center gap-1">
+            <Button variant="ghost" className="text-xs" disabled={!hasCompleted} onClick={() => exportAs('csv')}>Export CSV</Button>
+            <Button variant="ghost" className="text-xs" disabled={!hasCompleted} onClick={() => exportAs('json')}>Export JSON</Button>
+          </div>
+        </div>
+      </div>
+
+      {orderedResults.length > 0 && (
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center justify-between gap-3">
+            {layout === 'tabs' ? (
+              <div className="flex flex-wrap gap-1">
+                {orderedResults.map(result => (
+                  <button
+                    key={result.languageCode}
+                    onClick={() => setActiveTab(result.languageCode)}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold transition-all ${activeTab === result.languageCode ? 'bg-white text-indigo-600 shadow-sm border border-gray-200' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    <span className={`w-1.5 h-1.5 rounded-full ${STATUS_STYLES[result.status]}`} />
+                    {languageName(result.languageCode)}
+                  </button>
+                ))}
+              </div>
+            ) : <div />}
+            <div className="flex gap-1 p-1 bg-gray-100 rounded-xl">
+              {(['tabs', 'columns'] as ResultLayout[]).map(l => (
+                <button
+                  key={l}
+                  onClick={() => setLayout(l)}
+                  className={`px-3 py-1 rounded-lg text-xs font-semibold capitalize transition-all ${layout === l ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  {l}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {layout === 'tabs' && activeResult && (
+            <ResultCard result={activeResult} onRetry={() => handleRetry(activeResult.languageCode)} />
+          )}
+          {layout === 'columns' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {orderedResults.map(result => (
+                <ResultCard key={result.languageCode} result={result} onRetry={() => handleRetry(result.languageCode)} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
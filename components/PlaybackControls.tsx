@@ -0,0 +1,133 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { TTS_VOICES } from '../constants';
+import {
+  MAX_SPEECH_RATE,
+  MIN_SPEECH_RATE,
+  clearPlaybackError,
+  currentClipAsWav,
+  getPlaybackPosition,
+  getPlaybackState,
+  getVoiceSettings,
+  pausePlayback,
+  replayPlayback,
+  resumePlayback,
+  setVoiceSettings,
+  stopPlayback,
+  subscribePlayback,
+} from '../services/audioService';
+import { downloadFile } from '../services/fileService';
+import { languageName } from '../services/languageService';
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+export const PlaybackControls: React.FC = () => {
+  const playback = useSyncExternalStore(subscribePlayback, getPlaybackState);
+  const [position, setPosition] = useState(0);
+
+  // Poll the audio clock while something is playing
+  useEffect(() => {
+    if (playback.status !== 'playing') return;
+    let frame = requestAnimationFrame(function tick() {
+      setPosition(getPlaybackPosition());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playback.status]);
+
+  useEffect(() => {
+    if (playback.status === 'loading') setPosition(0);
+  }, [playback.status]);
+
+  if (!playback.text && !playback.error) return null;
+
+  const { languageCode, status, duration, error } = playback;
+  const settings = getVoiceSettings(languageCode);
+  const languageLabel = languageName(languageCode);
+  const progress = duration > 0 ? Math.min(position / duration, 1) : 0;
+
+  const handleDownload = () => {
+    const wav = currentClipAsWav();
+    if (wav) downloadFile(wav, `speech-${languageCode}.wav`, 'audio/wav');
+  };
+
+  const iconButton = 'p-2 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-indigo-600 disabled:opacity-40 transition-colors';
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[min(640px,calc(100%-2rem))] bg-white border border-gray-200 rounded-2xl shadow-xl px-4 py-3 flex flex-col gap-2">
+      {error && (
+        <div className="flex items-center justify-between gap-3 text-xs text-red-600">
+          <span>Playback failed: {error}</span>
+          <button onClick={clearPlaybackError} className="font-bold uppercase tracking-wider hover:text-red-800">Dismiss</button>
+        </div>
+      )}
+
+      {playback.text && (
+        <>
+          <div className="flex items-center gap-2">
+            {status === 'playing' ? (
+              <button onClick={pausePlayback} className={iconButton} title="Pause" aria-label="Pause">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6" /></svg>
+              </button>
+            ) : (
+              <button
+                onClick={status === 'paused' ? resumePlayback : replayPlayback}
+                disabled={status === 'loading' || duration === 0}
+                className={iconButton}
+                title={status === 'paused' ? 'Resume' : 'Play again'}
+                aria-label={status === 'paused' ? 'Resume' : 'Play again'}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /></svg>
+              </button>
+            )}
+            <button onClick={stopPlayback} disabled={status === 'idle'} className={iconButton} title="Stop" aria-label="Stop">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><rect x="7" y="7" width="10" height="10" rx="1" strokeWidth={2} /></svg>
+            </button>
+
+            <div className="flex-1 min-w-0 flex flex-col gap-1">
+              <p className="text-xs text-gray-600 truncate">
+                <span className="font-bold text-gray-400 uppercase tracking-wider mr-2">{languageLabel}</span>
+                {status === 'loading' ? 'Generating speech...' : playback.text}
+              </p>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 h-1 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500" style={{ width: `${progress * 100}%` }} />
+                </div>
+                <span className="text-[10px] text-gray-400 tabular-nums">{formatTime(position)} / {formatTime(duration)}</span>
+              </div>
+            </div>
+
+            <button onClick={handleDownload} disabled={duration === 0} className={iconButton} title="Download WAV" aria-label="Download WAV">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+            </button>
+          </div>
+
+          <div className="flex items-center gap-4 text-xs text-gray-500">
+            <label className="flex items-center gap-2">
+              Voice
+              <select
+                value={settings.voice}
+                onChange={(e) => setVoiceSettings(languageCode, { ...settings, voice: e.target.value })}
+                className="bg-white border border-gray-200 rounded px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {TTS_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Speed
+              <input
+                type="range"
+                min={MIN_SPEECH_RATE}
+                max={MAX_SPEECH_RATE}
+                step={0.1}
+                value={settings.rate}
+                onChange={(e) => setVoiceSettings(languageCode, { ...settings, rate: Number(e.target.value) })}
+              />
+              <span className="w-8 tabular-nums">{settings.rate.toFixed(1)}x</span>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
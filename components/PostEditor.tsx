@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from './Button';
+import { diffWords } from '../services/diffService';
+
+interface PostEditorProps {
+  sourceSegments: string[];
+  // Current target segments, possibly edited before
+  segments: string[];
+  // Model output per segment; the diff is taken against it
+  machineSegments: string[];
+  onSave: (editedSegments: string[]) => void;
+  onClose: () => void;
+}
+
+type EditorView = 'edit' | 'diff';
+
+const DIFF_STYLES = {
+  equal: '',
+  insert: 'bg-emerald-100 text-emerald-800 rounded',
+  delete: 'bg-red-100 text-red-700 line-through rounded',
+};
+
+export const PostEditor: React.FC<PostEditorProps> = ({ sourceSegments, segments, machineSegments, onSave, onClose }) => {
+  const [edited, setEdited] = useState<string[]>(segments);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [view, setView] = useState<EditorView>('edit');
+
+  const changed = useMemo(
+    () => edited.map((text, i) => text !== machineSegments[i]),
+    [edited, machineSegments]
+  );
+  const changedCount = changed.filter(Boolean).length;
+
+  const updateSegment = (index: number, text: string) =>
+    setEdited(prev => prev.map((t, i) => (i === index ? text : t)));
+
+  const rowClass = (i: number) =>
+    `px-4 py-3 transition-colors ${hovered === i ? 'bg-indigo-50' : ''}`;
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 shadow-sm flex flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-5 py-3 border-b border-gray-100">
+        <div className="flex items-center gap-3">
+          <h2 className="text-sm font-bold text-gray-800">Post-editing</h2>
+          <span className="text-xs text-gray-400">
+            {changedCount} of {sourceSegments.length} segments edited
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex gap-1 p-1 bg-gray-100 rounded-xl">
+            {(['edit', 'diff'] as EditorView[]).map(v => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-3 py-1 rounded-lg text-xs font-semibold capitalize transition-all ${view === v ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+          <Button variant="ghost" className="text-xs" disabled={changedCount === 0} onClick={() => setEdited(machineSegments)}>
+            Reset
+          </Button>
+          <Button variant="ghost" className="text-xs" onClick={onClose}>Cancel</Button>
+          <Button className="text-xs" onClick={() => onSave(edited)}>Approve & save</Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 text-[10px] font-bold uppercase tracking-wider text-gray-400 border-b border-gray-100">
+        <span className="px-4 py-2">Source</span>
+        <span className="px-4 py-2">{view === 'edit' ? 'Translation' : 'Changes from machine output'}</span>
+      </div>
+
+      <div className="flex flex-col divide-y divide-gray-100 max-h-[520px] overflow-y-auto">
+        {sourceSegments.map((source, i) => (
+          <div
+            key={i}
+            className="grid grid-cols-2"
+            onMouseEnter={() => setHovered(i)}
+            onMouseLeave={() => setHovered(null)}
+          >
+            <p className={`${rowClass(i)} text-sm text-gray-600 whitespace-pre-wrap`}>{source}</p>
+            {view === 'edit' ? (
+              <div className={`${rowClass(i)} flex gap-2`}>
+                <textarea
+                  value={edited[i]}
+                  onChange={(e) => updateSegment(i, e.target.value)}
+                  onFocus={() => setHovered(i)}
+                  rows={Math.max(1, Math.ceil(edited[i].length / 60))}
+                  className={`flex-1 resize-none bg-transparent text-sm text-gray-800 outline-none rounded px-1 focus:ring-2 focus:ring-indigo-200 ${changed[i] ? 'border-l-2 border-amber-400' : ''}`}
+                  aria-label={`Translation of segment ${i + 1}`}
+                />
+              </div>
+            ) : (
+              <p className={`${rowClass(i)} text-sm text-gray-800 whitespace-pre-wrap`}>
+                {changed[i]
+                  ? diffWords(machineSegments[i], edited[i]).map((part, j) => (
+                      <span key={j} className={DIFF_STYLES[part.operation]}>{part.text}</span>
+                    ))
+                  : <span className="text-gray-400">{edited[i]}</span>}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
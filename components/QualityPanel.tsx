@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './Button';
+import { QualityIssueType, TranslateOptions } from '../types';
+import { QualityReport, checkQuality, getAutoQualityCheck, setAutoQualityCheck } from '../services/qualityService';
+import { textDirection } from '../services/languageService';
+
+interface QualityPanelProps {
+  sourceText: string;
+  translatedText: string;
+  sourceLang: string;
+  targetLang: string;
+  options: TranslateOptions;
+  // True while the translation is still streaming
+  disabled?: boolean;
+  report: QualityReport | null;
+  onReport: (report: QualityReport | null) => void;
+}
+
+// Shared with the highlights in the output panel
+export const ISSUE_STYLES: Record<QualityIssueType, string> = {
+  mistranslation: 'bg-red-100 text-red-800',
+  omission: 'bg-orange-100 text-orange-800',
+  untranslated: 'bg-purple-100 text-purple-800',
+  formatting: 'bg-sky-100 text-sky-800',
+};
+
+const scoreStyle = (score: number) =>
+  score >= 85 ? 'bg-emerald-50 text-emerald-700' : score >= 60 ? 'bg-amber-50 text-amber-700' : 'bg-red-50 text-red-700';
+
+export const QualityPanel: React.FC<QualityPanelProps> = ({
+  sourceText,
+  translatedText,
+  sourceLang,
+  targetLang,
+  options,
+  disabled,
+  report,
+  onReport,
+}) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [autoCheck, setAutoCheckState] = useState(getAutoQualityCheck);
+  const controllerRef = useRef<AbortController | null>(null);
+  // Translation the automatic check last ran for, so hiding a report doesn't re-run it
+  const autoCheckedRef = useRef<string | null>(null);
+
+  const reset = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsLoading(false);
+    setError(null);
+    onReport(null);
+  };
+
+  // A report only describes the translation it was made for
+  useEffect(reset, [sourceText, translatedText, sourceLang, targetLang, options.style, options.glossary]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const run = async () => {
+    reset();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+    try {
+      const result = await checkQuality(sourceText, translatedText, sourceLang, targetLang, { ...options, signal: controller.signal });
+      if (!controller.signal.aborted) onReport(result);
+    } catch (err: any) {
+      if (err.name !== 'AbortError' && !controller.signal.aborted) {
+        setError(err.message || 'Could not check the translation.');
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const canRun = !disabled && !!sourceText.trim() && !!translatedText.trim();
+
+  // Runs once the stream has finished, after the reset above
+  useEffect(() => {
+    if (!autoCheck || !canRun || autoCheckedRef.current === translatedText) return;
+    autoCheckedRef.current = translatedText;
+    run();
+  }, [autoCheck, canRun, translatedText]);
+
+  const toggleAutoCheck = (enabled: boolean) => {
+    setAutoCheckState(enabled);
+    setAutoQualityCheck(enabled);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-3">
+        {!report && (
+          <Button variant="ghost" className="text-xs" isLoading={isLoading} disabled={!canRun} onClick={run}>
+            Check quality
+          </Button>
+        )}
+        <label className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={autoCheck} onChange={(e) => toggleAutoCheck(e.target.checked)} />
+          Check after every translation
+        </label>
+      </div>
+      {error && <p role="alert" className="px-1 text-xs text-red-600">{error}</p>}
+      {report && (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm divide-y divide-gray-100">
+          <div className="flex items-center justify-between gap-3 px-4 py-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-bold text-gray-800">Quality</span>
+              <span className={`px-2 py-0.5 rounded text-xs font-bold ${scoreStyle(report.score)}`}>{report.score}/100</span>
+              <span className="text-xs text-gray-500">{report.summary}</span>
+            </div>
+            <button onClick={reset} className="text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-gray-600">Hide</button>
+          </div>
+
+          {report.issues.length > 0 && (
+            <ul className="px-4 py-3 flex flex-col gap-2">
+              {report.issues.map((issue, i) => (
+                <li key={i} className="flex items-start gap-2 text-xs">
+                  <span className={`px-1.5 py-0.5 rounded font-semibold whitespace-nowrap ${ISSUE_STYLES[issue.type]}`}>
+                    {issue.type}{issue.severity === 'major' && ' · major'}
+                  </span>
+                  <span className="text-gray-600">
+                    {issue.span && <q className="font-medium text-gray-800 mr-1">{issue.span}</q>}
+                    {issue.explanation}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-2 gap-4 px-4 py-3">
+            <div className="flex flex-col gap-1">
+              <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Original</span>
+              <p
+                className="text-sm text-gray-700 whitespace-pre-wrap"
+                lang={report.backTranslationLanguage}
+                dir={textDirection(report.backTranslationLanguage)}
+              >
+                {sourceText}
+              </p>
+            </div>
+            <div className="flex flex-col gap-1">
+              <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Back-translation</span>
+              <p
+                className="text-sm text-gray-700 whitespace-pre-wrap"
+                lang={report.backTranslationLanguage}
+                dir={textDirection(report.backTranslationLanguage)}
+              >
+                {report.backTranslation}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ShortcutHelp } from './ShortcutHelp';
+import { SHORTCUTS, SHORTCUT_DESCRIPTIONS, ShortcutId, formatShortcut } from '../services/shortcutService';
+
+describe('ShortcutHelp', () => {
+  it('lists every shortcut with its keys', () => {
+    render(<ShortcutHelp onClose={() => {}} />);
+    const dialog = screen.getByRole('dialog', { name: 'Keyboard shortcuts' });
+    (Object.keys(SHORTCUTS) as ShortcutId[]).forEach(id => {
+      const term = within(dialog).getByText(SHORTCUT_DESCRIPTIONS[id]);
+      expect(term.nextElementSibling).toHaveTextContent(formatShortcut(SHORTCUTS[id]));
+    });
+  });
+
+  it('moves focus to the close button', () => {
+    render(<ShortcutHelp onClose={() => {}} />);
+    expect(screen.getByRole('button', { name: 'Close' })).toHaveFocus();
+  });
+
+  it('closes on Escape, the close button and a click outside, but not a click inside', async () => {
+    const onClose = vi.fn();
+    const user = userEvent.setup();
+    render(<ShortcutHelp onClose={onClose} />);
+
+    await user.click(screen.getByRole('dialog'));
+    expect(onClose).not.toHaveBeenCalled();
+
+    await user.keyboard('{Escape}');
+    await user.click(screen.getByRole('button', { name: 'Close' }));
+    await user.click(screen.getByRole('dialog').parentElement!);
+    expect(onClose).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+import { SHORTCUTS, SHORTCUT_DESCRIPTIONS, ShortcutId, formatShortcut } from '../services/shortcutService';
+import { useFocusTrap } from './useFocusTrap';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+  useFocusTrap(dialogRef);
+
+  useEffect(() => {
+    closeRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-30 bg-gray-900/30 flex items-start justify-center p-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        className="bg-white rounded-2xl shadow-xl border border-gray-200 w-full max-w-md mt-24 p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="shortcut-help-title" className="text-lg font-bold text-gray-800">Keyboard shortcuts</h2>
+          <button ref={closeRef} onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+          </button>
+        </div>
+        <dl className="flex flex-col divide-y divide-gray-100">
+          {(Object.keys(SHORTCUTS) as ShortcutId[]).map(id => (
+            <div key={id} className="flex items-center justify-between py-2 text-sm">
+              <dt className="text-gray-600">{SHORTCUT_DESCRIPTIONS[id]}</dt>
+              <dd>
+                <kbd className="text-xs font-mono text-gray-500 bg-gray-50 border border-gray-200 rounded px-1.5 py-0.5">
+                  {formatShortcut(SHORTCUTS[id])}
+                </kbd>
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <p className="text-xs text-gray-400">Shortcuts without Ctrl or ⌘ don't work while typing in a text field.</p>
+      </div>
+    </div>
+  );
+};
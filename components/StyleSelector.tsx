@@ -0,0 +1,31 @@
+import React from 'react';
+import { FORMALITY_OPTIONS, TONE_PRESETS } from '../constants';
+import { Formality, TonePreset, TranslationStyle } from '../types';
+
+interface StyleSelectorProps {
+  value: TranslationStyle;
+  onChange: (style: TranslationStyle) => void;
+}
+
+const selectClass = 'bg-white border border-gray-200 rounded-lg px-2 py-1.5 text-xs font-medium text-gray-600 outline-none focus:ring-2 focus:ring-indigo-500';
+
+export const StyleSelector: React.FC<StyleSelectorProps> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2">
+    <select
+      value={value.formality}
+      onChange={(e) => onChange({ ...value, formality: e.target.value as Formality })}
+      className={selectClass}
+      title="Formality"
+    >
+      {FORMALITY_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+    </select>
+    <select
+      value={value.tone}
+      onChange={(e) => onChange({ ...value, tone: e.target.value as TonePreset })}
+      className={selectClass}
+      title="Tone"
+    >
+      {TONE_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+    </select>
+  </div>
+);
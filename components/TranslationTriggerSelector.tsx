@@ -0,0 +1,32 @@
+import React from 'react';
+import { DEBOUNCE_OPTIONS, LiveTranslationSettings, TranslationTrigger } from '../services/liveTranslationService';
+
+interface TranslationTriggerSelectorProps {
+  value: LiveTranslationSettings;
+  onChange: (settings: LiveTranslationSettings) => void;
+}
+
+const selectClass = 'bg-white border border-gray-200 rounded-lg px-2 py-1.5 text-xs font-medium text-gray-600 outline-none focus:ring-2 focus:ring-indigo-500 disabled:text-gray-300';
+
+export const TranslationTriggerSelector: React.FC<TranslationTriggerSelectorProps> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2">
+    <select
+      value={value.trigger}
+      onChange={(e) => onChange({ ...value, trigger: e.target.value as TranslationTrigger })}
+      className={selectClass}
+      title="When to translate"
+    >
+      <option value="live">Live</option>
+      <option value="manual">Manual (Ctrl+Enter)</option>
+    </select>
+    <select
+      value={value.debounceMs}
+      onChange={(e) => onChange({ ...value, debounceMs: Number(e.target.value) })}
+      disabled={value.trigger === 'manual'}
+      className={selectClass}
+      title="Pause in typing before translating"
+    >
+      {DEBOUNCE_OPTIONS.map(ms => <option key={ms} value={ms}>{ms < 1000 ? `${ms} ms` : `${ms / 1000} s`} pause</option>)}
+    </select>
+  </div>
+);
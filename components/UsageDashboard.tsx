@@ -0,0 +1,177 @@
+import React, { useId, useRef, useState } from 'react';
+import { Button } from './Button';
+import { languageName } from '../services/languageService';
+import {
+  UsageBudget,
+  UsageRow,
+  UsageTotals,
+  dayKey,
+  getSessionUsage,
+  groupUsage,
+  isBudgetExceeded,
+  totalUsage,
+} from '../services/usageService';
+import { useFocusTrap } from './useFocusTrap';
+
+interface UsageDashboardProps {
+  rows: UsageRow[];
+  budget: UsageBudget;
+  onBudgetChange: (budget: UsageBudget) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Days shown in the per-day table
+const DAYS_SHOWN = 14;
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+const pairLabel = (row: UsageRow) =>
+  row.targetLanguage
+    ? `${languageName(row.sourceLanguage)} → ${languageName(row.targetLanguage)}`
+    : 'Other (detection, speech, images)';
+
+// Empty input clears a limit
+const parseLimit = (value: string) => (value.trim() === '' ? undefined : Math.max(0, Number(value)) || 0);
+
+const Summary: React.FC<{ label: string; totals: UsageTotals; note?: string }> = ({ label, totals, note }) => (
+  <div className="flex-1 bg-gray-50 rounded-xl px-4 py-3">
+    <p className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{label}</p>
+    <p className="text-lg font-bold text-gray-800">{formatCost(totals.cost)}</p>
+    <p className="text-xs text-gray-500">
+      {totals.requests.toLocaleString()} requests · {(totals.inputTokens + totals.outputTokens).toLocaleString()} tokens
+    </p>
+    {note && <p className="text-xs text-gray-400">{note}</p>}
+  </div>
+);
+
+const UsageTable: React.FC<{ heading: string; groups: ({ key: string } & UsageTotals)[] }> = ({ heading, groups }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="text-[10px] font-bold uppercase tracking-wider text-gray-400 text-right">
+        <th className="text-left font-bold py-1">{heading}</th>
+        <th className="font-bold py-1">Requests</th>
+        <th className="font-bold py-1">Input</th>
+        <th className="font-bold py-1">Output</th>
+        <th className="font-bold py-1">Est. cost</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-gray-100">
+      {groups.map(group => (
+        <tr key={group.key} className="text-right text-gray-600">
+          <td className="text-left py-1.5 font-medium text-gray-800">{group.key}</td>
+          <td className="py-1.5">{group.requests.toLocaleString()}</td>
+          <td className="py-1.5">{group.inputTokens.toLocaleString()}</td>
+          <td className="py-1.5">{group.outputTokens.toLocaleString()}</td>
+          <td className="py-1.5">{formatCost(group.cost)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ rows, budget, onBudgetChange, onClear, onClose }) => {
+  const [dailyTokens, setDailyTokens] = useState(budget.dailyTokens?.toString() ?? '');
+  const [dailyCost, setDailyCost] = useState(budget.dailyCost?.toString() ?? '');
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+  useFocusTrap(dialogRef);
+
+  const today = totalUsage(rows.filter(row => row.day === dayKey()));
+  const speechCalls = rows.filter(row => row.operation === 'speak').reduce((sum, row) => sum + row.requests, 0);
+  const byDay = groupUsage(rows, row => row.day)
+    .sort((a, b) => b.key.localeCompare(a.key))
+    .slice(0, DAYS_SHOWN);
+  const recent = totalUsage(rows.filter(row => byDay.some(day => day.key === row.day)));
+  const byPair = groupUsage(rows, pairLabel);
+  const exceeded = isBudgetExceeded(today, budget);
+
+  const saveLimits = (e: React.FormEvent) => {
+    e.preventDefault();
+    onBudgetChange({ ...budget, dailyTokens: parseLimit(dailyTokens), dailyCost: parseLimit(dailyCost) });
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-gray-900/30 flex items-start justify-center p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="bg-white rounded-2xl shadow-xl border border-gray-200 w-full max-w-2xl mt-16 p-6 flex flex-col gap-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id={titleId} className="text-xl font-bold text-gray-800">Usage</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close" aria-label="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <Summary label="This session" totals={getSessionUsage()} />
+          <Summary label="Today" totals={today} note={exceeded ? 'Over budget' : undefined} />
+          <Summary label={`Last ${DAYS_SHOWN} days`} totals={recent} note={`${speechCalls.toLocaleString()} speech calls in total`} />
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No usage recorded yet.</p>
+        ) : (
+          <>
+            <UsageTable heading="Day" groups={byDay} />
+            <UsageTable heading="Language pair" groups={byPair} />
+          </>
+        )}
+
+        <form onSubmit={saveLimits} className="flex flex-col gap-3 border-t border-gray-100 pt-4">
+          <p className="text-xs font-bold uppercase tracking-wider text-gray-400">Daily budget</p>
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              type="number"
+              min={0}
+              value={dailyTokens}
+              onChange={(e) => setDailyTokens(e.target.value)}
+              placeholder="Token limit"
+              className="flex-1 bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={dailyCost}
+              onChange={(e) => setDailyCost(e.target.value)}
+              placeholder="Cost limit (USD)"
+              className="flex-1 bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <Button type="submit">Save</Button>
+          </div>
+          <div className="flex flex-col gap-1 text-xs text-gray-500">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="radio"
+                checked={budget.onExceeded === 'warn'}
+                onChange={() => onBudgetChange({ ...budget, onExceeded: 'warn' })}
+              />
+              Warn when today's usage passes a limit
+            </label>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="radio"
+                checked={budget.onExceeded === 'manual'}
+                onChange={() => onBudgetChange({ ...budget, onExceeded: 'manual' })}
+              />
+              Also stop translating as I type; translate on request only
+            </label>
+          </div>
+        </form>
+
+        <div className="flex items-center justify-between text-xs text-gray-400">
+          <span>Costs are estimates from list prices, not billing figures.</span>
+          <button onClick={onClear} className="font-semibold hover:text-red-500 transition-colors">
+            Clear usage
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { RefObject, useEffect, useState } from 'react';
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+const focusableIn = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => el.tabIndex >= 0);
+
+// Keeps Tab inside a modal dialog and hands focus back to whatever opened it
+// once the dialog goes away
+export const useFocusTrap = (ref: RefObject<HTMLElement | null>) => {
+  // Read during render, before autoFocus inside the dialog moves focus
+  const [opener] = useState(() => (typeof document === 'undefined' ? null : document.activeElement));
+
+  useEffect(() => {
+    const container = ref.current;
+    if (!container) return;
+    if (!container.contains(document.activeElement)) focusableIn(container)[0]?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return;
+      const focusable = focusableIn(container);
+      if (focusable.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    container.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      container.removeEventListener('keydown', handleKeyDown);
+      // Leave focus alone if closing moved it on purpose, e.g. a palette command
+      const active = document.activeElement;
+      const focusLost = !active || active === document.body || container.contains(active);
+      if (focusLost && opener instanceof HTMLElement && opener.isConnected) opener.focus();
+    };
+  }, [ref, opener]);
+};
@@ -1,25 +1,70 @@
 
-import { Language } from './types';
-
-export const SUPPORTED_LANGUAGES: Language[] = [
-  { code: 'auto', name: 'Auto-detect' },
-  { code: 'en', name: 'English' },
-  { code: 'es', name: 'Spanish' },
-  { code: 'fr', name: 'French' },
-  { code: 'de', name: 'German' },
-  { code: 'it', name: 'Italian' },
-  { code: 'pt', name: 'Portuguese' },
-  { code: 'zh', name: 'Chinese (Simplified)' },
-  { code: 'ja', name: 'Japanese' },
-  { code: 'ko', name: 'Korean' },
-  { code: 'ru', name: 'Russian' },
-  { code: 'ar', name: 'Arabic' },
-  { code: 'hi', name: 'Hindi' },
-  { code: 'tr', name: 'Turkish' },
-  { code: 'nl', name: 'Dutch' },
-  { code: 'pl', name: 'Polish' },
-  { code: 'vi', name: 'Vietnamese' },
-  { code: 'th', name: 'Thai' },
+import { Formality, Language, TonePreset } from './types';
+
+export const AUTO_DETECT: Language = { code: 'auto', name: 'Auto-detect' };
+
+// Built-in languages; more can be added with CUSTOM_LANGUAGES (see
+// services/languageService.ts). `tts` follows the languages the Gemini speech
+// model supports.
+export const BUILT_IN_LANGUAGES: Language[] = [
+  { code: 'en', name: 'English', nativeName: 'English', tts: true },
+  { code: 'en-GB', name: 'English (UK)', nativeName: 'English (UK)', tts: true, variantOf: 'en' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español', tts: true },
+  { code: 'es-MX', name: 'Spanish (Mexico)', nativeName: 'Español (México)', tts: true, variantOf: 'es' },
+  { code: 'fr', name: 'French', nativeName: 'Français', tts: true },
+  { code: 'fr-CA', name: 'French (Canada)', nativeName: 'Français (Canada)', tts: true, variantOf: 'fr' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', tts: true },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', tts: true },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português', tts: true },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)', nativeName: 'Português (Brasil)', tts: true, variantOf: 'pt' },
+  { code: 'pt-PT', name: 'Portuguese (Portugal)', nativeName: 'Português (Portugal)', tts: true, variantOf: 'pt' },
+  { code: 'zh-Hans', name: 'Chinese (Simplified)', nativeName: '简体中文', tts: false, variantOf: 'zh' },
+  { code: 'zh-Hant', name: 'Chinese (Traditional)', nativeName: '繁體中文', tts: false, variantOf: 'zh' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', tts: true },
+  { code: 'ko', name: 'Korean', nativeName: '한국어', tts: true },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский', tts: true },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', direction: 'rtl', tts: true },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית', direction: 'rtl', tts: false },
+  { code: 'fa', name: 'Persian', nativeName: 'فارسی', direction: 'rtl', tts: false },
+  { code: 'ur', name: 'Urdu', nativeName: 'اردو', direction: 'rtl', tts: false },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', tts: true },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', tts: true },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', tts: true },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski', tts: true },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt', tts: true },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย', tts: true },
+];
+
+// Tags stored before variants existed, or returned by detection, that map to
+// a specific entry
+export const LANGUAGE_ALIASES: Record<string, string> = {
+  zh: 'zh-Hans',
+  'zh-CN': 'zh-Hans',
+  'zh-TW': 'zh-Hant',
+  'zh-HK': 'zh-Hant',
+  iw: 'he',
+};
+
+export const FORMALITY_OPTIONS: { id: Formality; name: string }[] = [
+  { id: 'auto', name: 'Auto formality' },
+  { id: 'formal', name: 'Formal' },
+  { id: 'informal', name: 'Informal' },
+];
+
+export const TONE_PRESETS: { id: TonePreset; name: string }[] = [
+  { id: 'neutral', name: 'Neutral' },
+  { id: 'legal', name: 'Legal' },
+  { id: 'marketing', name: 'Marketing' },
+  { id: 'casual', name: 'Casual chat' },
+  { id: 'technical', name: 'Technical' },
 ];
 
-export const TARGET_LANGUAGES = SUPPORTED_LANGUAGES.filter(lang => lang.code !== 'auto');
+// Prebuilt voices offered by the Gemini TTS model
+export const TTS_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+// US dollars per million tokens on the paid Gemini API tier. Costs shown in
+// the usage dashboard are estimates from these, not billing figures.
+export const TOKEN_PRICES = {
+  text: { input: 0.5, output: 3 },
+  speech: { input: 0.5, output: 10 },
+};
@@ -0,0 +1,35 @@
+import { geminiProvider } from "../services/geminiService";
+import { mockProvider } from "../services/mockProvider";
+import { DEFAULT_RATE_LIMIT, createProxyServer } from "./proxyServer";
+
+// Usage: GEMINI_API_KEY=... npm run server
+// Set PROXY_BACKEND=mock to serve the offline mock provider instead.
+
+// Same .env.local the Vite dev server reads; variables already set win
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No file; rely on the environment
+}
+
+const port = Number(process.env.PROXY_PORT) || 8787;
+const backend = process.env.PROXY_BACKEND === 'mock' ? mockProvider : geminiProvider;
+
+if (backend === geminiProvider && !process.env.GEMINI_API_KEY) {
+  console.error("GEMINI_API_KEY is not set. Add it to the environment or use PROXY_BACKEND=mock.");
+  process.exit(1);
+}
+
+const server = createProxyServer({
+  backend,
+  rateLimit: {
+    limit: Number(process.env.PROXY_RATE_LIMIT) || DEFAULT_RATE_LIMIT.limit,
+    windowMs: DEFAULT_RATE_LIMIT.windowMs,
+  },
+  allowedOrigin: process.env.PROXY_ALLOWED_ORIGIN,
+  trustProxy: process.env.PROXY_TRUST_FORWARDED === 'true',
+});
+
+server.listen(port, () => {
+  console.log(`Translation proxy (${backend.id}) listening on http://localhost:${port}`);
+});
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { TranslationProvider } from "../types";
+import { mockProvider } from "../services/mockProvider";
+import { TranslationError } from "../services/requestService";
+import { DEFAULT_MAX_TEXT_CHARS, ProxyServerOptions, UsageRecord, createProxyServer } from "./proxyServer";
+
+let server: Server | undefined;
+
+// Starts the proxy on an ephemeral port and returns its base URL
+const start = async (options: Partial<ProxyServerOptions> = {}) => {
+  server = createProxyServer({ backend: mockProvider, logUsage: () => {}, ...options });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  server = undefined;
+});
+
+const postJson = (url: string, body: unknown, headers: Record<string, string> = {}) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) });
+
+const translation = { text: 'Hello world', sourceLang: 'en', targetLang: 'es' };
+
+// The stream provider emits the given chunks, then reports usage or fails
+const streamingBackend = (chunks: string[], failure?: TranslationError): TranslationProvider => ({
+  ...mockProvider,
+  translateStream: async (_text, _source, _target, onChunk, options = {}) => {
+    chunks.forEach(onChunk);
+    if (failure) throw failure;
+    options.onUsage?.({ inputTokens: 3, outputTokens: 5 });
+  },
+});
+
+describe('proxy server', () => {
+  it('answers a health check with the backend id', async () => {
+    const base = await start();
+    expect(await (await fetch(`${base}/health`)).json()).toEqual({ ok: true, backend: 'mock' });
+  });
+
+  it('returns JSON translations with token counts in headers', async () => {
+    const records: UsageRecord[] = [];
+    const base = await start({ logUsage: record => records.push(record) });
+    const response = await postJson(`${base}/translate`, translation);
+    expect(response.status).toBe(200);
+    expect((await response.json()).translatedText).toMatch(/hola/i);
+    expect(Number(response.headers.get('X-Input-Tokens'))).toBeGreaterThan(0);
+    expect(records).toMatchObject([{ endpoint: '/translate', status: 200, inputChars: translation.text.length }]);
+  });
+
+  it('streams chunks as server-sent events followed by usage and done', async () => {
+    const base = await start({ backend: streamingBackend(['Hola', ' mundo']) });
+    const response = await postJson(`${base}/translate`, translation, { Accept: 'text/event-stream' });
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(await response.text()).toBe(
+      'event: chunk\ndata: {"text":"Hola"}\n\n' +
+      'event: chunk\ndata: {"text":" mundo"}\n\n' +
+      'event: usage\ndata: {"inputTokens":3,"outputTokens":5}\n\n' +
+      'event: done\ndata: {}\n\n'
+    );
+  });
+
+  it('reports a failure after the first chunk as an error event', async () => {
+    const base = await start({ backend: streamingBackend(['Hola'], new TranslationError('server')) });
+    const body = await (await postJson(`${base}/translate`, translation, { Accept: 'text/event-stream' })).text();
+    expect(body).toMatch(/event: error\ndata: \{"category":"server","message":"[^"]+"\}\n\n$/);
+    expect(body).not.toContain('event: done');
+  });
+
+  it('rejects text over the limit with 413 and an invalid-input category', async () => {
+    const base = await start();
+    const response = await postJson(`${base}/detect`, { text: 'a'.repeat(DEFAULT_MAX_TEXT_CHARS + 1) });
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.category).toBe('invalid-input');
+  });
+
+  it('accepts text at the limit', async () => {
+    const base = await start();
+    expect((await postJson(`${base}/detect`, { text: 'a'.repeat(DEFAULT_MAX_TEXT_CHARS) })).status).toBe(200);
+  });
+
+  it('rejects malformed requests with 400', async () => {
+    const base = await start();
+    const response = await postJson(`${base}/translate`, { ...translation, style: { formality: 'rude', tone: 'neutral' } });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatchObject({ category: 'invalid-input', message: expect.stringContaining('style') });
+  });
+
+  it('answers 429 with Retry-After once a client is over the rate limit', async () => {
+    const base = await start({ rateLimit: { limit: 2, windowMs: 60_000 } });
+    expect((await postJson(`${base}/detect`, { text: 'Hello' })).status).toBe(200);
+    expect((await postJson(`${base}/detect`, { text: 'Hello' })).status).toBe(200);
+    const limited = await postJson(`${base}/detect`, { text: 'Hello' });
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect((await limited.json()).error.category).toBe('rate-limit');
+  });
+
+  it('passes backend error categories through in the body', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const base = await start({
+      backend: {
+        ...mockProvider,
+        detect: async () => {
+          throw new TranslationError('auth');
+        },
+      },
+    });
+    const response = await postJson(`${base}/detect`, { text: 'Hello' });
+    expect(response.status).toBe(502);
+    expect((await response.json()).error.category).toBe('auth');
+  });
+
+  it('rejects unknown endpoints and other methods', async () => {
+    const base = await start();
+    expect((await postJson(`${base}/nope`, {})).status).toBe(404);
+    expect((await fetch(`${base}/translate`)).status).toBe(405);
+  });
+});
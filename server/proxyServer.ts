@@ -0,0 +1,372 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { GlossaryEntry, TokenUsage, TranslateOptions, TranslationProvider, TranslationStyle } from "../types";
+import { FORMALITY_OPTIONS, TONE_PRESETS } from "../constants";
+import { ErrorCategory, classifyError } from "../services/requestService";
+import { MAX_INPUT_CHARS } from "../services/inputService";
+import { RateLimitOptions, createRateLimiter } from "./rateLimiter";
+
+// HTTP front for a TranslationProvider. The browser talks to this instead of
+// the model API, so the API key only ever lives on the server.
+
+export interface UsageRecord {
+  timestamp: string;
+  client: string;
+  endpoint: string;
+  status: number;
+  inputChars: number;
+  outputChars: number;
+  // As reported by the model; zero when the backend doesn't report usage
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+}
+
+export interface ProxyServerOptions {
+  // The model backend; tests pass the mock provider or their own stub
+  backend: TranslationProvider;
+  rateLimit?: RateLimitOptions;
+  // Raw request body limit; audio and image uploads are the largest requests
+  maxBodyBytes?: number;
+  // Longest text accepted by the text endpoints
+  maxTextChars?: number;
+  // Origin allowed to call the API cross-site; same-origin only when unset
+  allowedOrigin?: string;
+  // Take the client address from X-Forwarded-For (only behind a trusted proxy)
+  trustProxy?: boolean;
+  logUsage?: (record: UsageRecord) => void;
+}
+
+// A translation brings a detection request with it, and multi-target and
+// document translation send several at once
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = { limit: 300, windowMs: 60_000 };
+export const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+// Matches what the text box accepts, so anything the client sends is allowed
+export const DEFAULT_MAX_TEXT_CHARS = MAX_INPUT_CHARS;
+
+// Statuses that mean the request itself has to change before it can succeed
+const INPUT_STATUSES = [400, 413, 415];
+
+class HttpError extends Error {
+  readonly status: number;
+  readonly category: ErrorCategory;
+
+  constructor(status: number, message: string, category: ErrorCategory = INPUT_STATUSES.includes(status) ? 'invalid-input' : 'unknown') {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.category = category;
+  }
+}
+
+// Upstream failures are reported as gateway errors; the category in the body
+// tells the client whether retrying makes sense
+const STATUS_FOR_CATEGORY: Record<ErrorCategory, number> = {
+  'rate-limit': 429,
+  timeout: 504,
+  offline: 502,
+  network: 502,
+  server: 502,
+  auth: 502,
+  'invalid-response': 502,
+  'invalid-input': 400,
+  unknown: 500,
+};
+
+const logToStdout = (record: UsageRecord) => console.log(JSON.stringify(record));
+
+const readBody = (req: IncomingMessage, limit: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    if (Number(req.headers['content-length']) > limit) {
+      reject(new HttpError(413, `Request body exceeds ${limit} bytes.`));
+      req.resume();
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // Keep draining so the 413 can still be delivered
+        tooLarge = true;
+        chunks.length = 0;
+      } else if (!tooLarge) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => (tooLarge
+      ? reject(new HttpError(413, `Request body exceeds ${limit} bytes.`))
+      : resolve(Buffer.concat(chunks))));
+    req.on('error', reject);
+  });
+
+const readJson = async (req: IncomingMessage, limit: number): Promise<Record<string, unknown>> => {
+  const body = await readBody(req, limit);
+  try {
+    const parsed = JSON.parse(body.toString('utf8'));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, 'Request body must be a JSON object.');
+};
+
+const requireString = (body: Record<string, unknown>, field: string, maxLength?: number) => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${field}" must be a non-empty string.`);
+  }
+  if (maxLength !== undefined && value.length > maxLength) {
+    throw new HttpError(413, `"${field}" exceeds ${maxLength} characters.`);
+  }
+  return value;
+};
+
+const isGlossaryEntry = (value: unknown): value is GlossaryEntry => {
+  const entry = value as Record<string, unknown> | null;
+  return !!entry && ['id', 'sourceLanguage', 'targetLanguage', 'sourceTerm', 'targetTerm']
+    .every(field => typeof entry[field] === 'string');
+};
+
+const readStyle = (value: unknown): TranslationStyle | undefined => {
+  if (value === undefined) return undefined;
+  const style = value as Partial<TranslationStyle> | null;
+  if (
+    !style ||
+    !FORMALITY_OPTIONS.some(o => o.id === style.formality) ||
+    !TONE_PRESETS.some(t => t.id === style.tone)
+  ) {
+    throw new HttpError(400, '"style" has an unknown formality or tone.');
+  }
+  return { formality: style.formality!, tone: style.tone! };
+};
+
+const readTranslateRequest = (body: Record<string, unknown>, maxTextChars: number) => {
+  if (body.glossary !== undefined && !(Array.isArray(body.glossary) && body.glossary.every(isGlossaryEntry))) {
+    throw new HttpError(400, '"glossary" must be a list of glossary entries.');
+  }
+  return {
+    text: requireString(body, 'text', maxTextChars),
+    sourceLang: requireString(body, 'sourceLang', 32),
+    targetLang: requireString(body, 'targetLang', 32),
+    options: {
+      glossary: body.glossary as GlossaryEntry[] | undefined,
+      style: readStyle(body.style),
+    } as TranslateOptions,
+  };
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const sendEvent = (res: ServerResponse, event: string, payload: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+};
+
+export const createProxyServer = ({
+  backend,
+  rateLimit = DEFAULT_RATE_LIMIT,
+  maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+  maxTextChars = DEFAULT_MAX_TEXT_CHARS,
+  allowedOrigin,
+  trustProxy = false,
+  logUsage = logToStdout,
+}: ProxyServerOptions) => {
+  const checkRateLimit = createRateLimiter(rateLimit);
+
+  const clientOf = (req: IncomingMessage) => {
+    const forwarded = trustProxy ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+    return forwarded || req.socket.remoteAddress || 'unknown';
+  };
+
+  // Each handler returns the character counts for the usage log. Token counts
+  // arrive through onUsage and go back to the client in X-Input-Tokens and
+  // X-Output-Tokens, or as a usage event on streams.
+  type Handler = (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    signal: AbortSignal,
+    onUsage: (usage: TokenUsage) => void
+  ) => Promise<{ inputChars: number; outputChars: number }>;
+
+  const handlers: Record<string, Handler> = {
+    '/translate': async (req, res, _url, signal, onUsage) => {
+      const { text, sourceLang, targetLang, options } = readTranslateRequest(await readJson(req, maxBodyBytes), maxTextChars);
+
+      if (!String(req.headers.accept ?? '').includes('text/event-stream')) {
+        const result = await backend.translate(text, sourceLang, targetLang, { ...options, signal, onUsage });
+        sendJson(res, 200, result);
+        return { inputChars: text.length, outputChars: result.translatedText.length };
+      }
+
+      // Headers go out with the first chunk, so a failure before it can
+      // still be reported with a proper status code
+      let outputChars = 0;
+      let usage: TokenUsage | undefined;
+      try {
+        await backend.translateStream(text, sourceLang, targetLang, (chunk) => {
+          if (!res.headersSent) {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+          }
+          outputChars += chunk.length;
+          sendEvent(res, 'chunk', { text: chunk });
+        }, {
+          ...options,
+          signal,
+          onUsage: (reported) => {
+            onUsage(reported);
+            usage = reported;
+          },
+        });
+      } catch (err) {
+        if (!res.headersSent) throw err;
+        const error = classifyError(err);
+        sendEvent(res, 'error', { category: error.category, message: error.message });
+        res.end();
+        return { inputChars: text.length, outputChars };
+      }
+      if (!res.headersSent) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      }
+      if (usage) sendEvent(res, 'usage', usage);
+      sendEvent(res, 'done', {});
+      res.end();
+      return { inputChars: text.length, outputChars };
+    },
+
+    '/alternatives': async (req, res, _url, signal, onUsage) => {
+      const { text, sourceLang, targetLang, options } = readTranslateRequest(await readJson(req, maxBodyBytes), maxTextChars);
+      const alternatives = await backend.alternatives(text, sourceLang, targetLang, { ...options, signal, onUsage });
+      sendJson(res, 200, alternatives);
+      return { inputChars: text.length, outputChars: alternatives.reduce((sum, a) => sum + a.translatedText.length, 0) };
+    },
+
+    // Same body as /translate plus the translation under review
+    '/quality': async (req, res, _url, signal, onUsage) => {
+      const body = await readJson(req, maxBodyBytes);
+      const { text, sourceLang, targetLang, options } = readTranslateRequest(body, maxTextChars);
+      const translatedText = requireString(body, 'translatedText', maxTextChars);
+      const assessment = await backend.assessQuality(text, translatedText, sourceLang, targetLang, { ...options, signal, onUsage });
+      sendJson(res, 200, assessment);
+      return { inputChars: text.length + translatedText.length, outputChars: 0 };
+    },
+
+    '/detect': async (req, res, _url, signal, onUsage) => {
+      const text = requireString(await readJson(req, maxBodyBytes), 'text', maxTextChars);
+      sendJson(res, 200, await backend.detect(text, { onUsage, signal }));
+      return { inputChars: text.length, outputChars: 0 };
+    },
+
+    '/speak': async (req, res, _url, signal, onUsage) => {
+      const body = await readJson(req, maxBodyBytes);
+      const text = requireString(body, 'text', maxTextChars);
+      const languageName = requireString(body, 'languageName', 64);
+      const voice = typeof body.voice === 'string' ? body.voice : undefined;
+      const audio = await backend.speak(text, languageName, voice, { onUsage, signal });
+      // Raw PCM is far smaller than base64 inside JSON
+      res.writeHead(200, {
+        'Content-Type': 'application/octet-stream',
+        'X-Sample-Rate': String(audio.sampleRate),
+        'X-Channels': String(audio.numChannels),
+      });
+      res.end(Buffer.from(audio.data.buffer, audio.data.byteOffset, audio.data.byteLength));
+      return { inputChars: text.length, outputChars: 0 };
+    },
+
+    '/transcribe': async (req, res, url, signal, onUsage) => {
+      const body = await readBody(req, maxBodyBytes);
+      if (body.length === 0) throw new HttpError(400, 'Audio body is empty.');
+      const audio = new Blob([body], { type: String(req.headers['content-type'] || 'audio/webm') });
+      const text = await backend.transcribe(audio, url.searchParams.get('language') || undefined, { onUsage, signal });
+      sendJson(res, 200, { text });
+      return { inputChars: 0, outputChars: text.length };
+    },
+
+    '/extract-text': async (req, res, _url, signal, onUsage) => {
+      const type = String(req.headers['content-type'] || '');
+      if (!type.startsWith('image/')) throw new HttpError(415, 'Send the image with an image/* content type.');
+      const body = await readBody(req, maxBodyBytes);
+      if (body.length === 0) throw new HttpError(400, 'Image body is empty.');
+      const blocks = await backend.extractText(new Blob([body], { type }), { onUsage, signal });
+      sendJson(res, 200, { blocks });
+      return { inputChars: 0, outputChars: blocks.reduce((sum, b) => sum + b.text.length, 0) };
+    },
+  };
+
+  return createServer(async (req, res) => {
+    const started = Date.now();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const client = clientOf(req);
+    let usage = { inputChars: 0, outputChars: 0 };
+    const tokens: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    const onUsage = ({ inputTokens, outputTokens }: TokenUsage) => {
+      tokens.inputTokens += inputTokens;
+      tokens.outputTokens += outputTokens;
+      if (!res.headersSent) {
+        res.setHeader('X-Input-Tokens', String(tokens.inputTokens));
+        res.setHeader('X-Output-Tokens', String(tokens.outputTokens));
+      }
+    };
+
+    if (allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+      res.setHeader('Access-Control-Expose-Headers', 'X-Sample-Rate, X-Channels, X-Input-Tokens, X-Output-Tokens, Retry-After');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST' });
+      res.end();
+      return;
+    }
+    if (req.method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, { ok: true, backend: backend.id });
+      return;
+    }
+
+    // Stop the backend call if the browser goes away mid-request
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const handler = handlers[url.pathname];
+      if (!handler) throw new HttpError(404, `Unknown endpoint ${url.pathname}.`);
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST.');
+
+      const limit = checkRateLimit(client);
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', String(limit.retryAfter));
+        throw new HttpError(429, 'Too many requests from this client. Slow down and try again shortly.', 'rate-limit');
+      }
+      usage = await handler(req, res, url, controller.signal, onUsage);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        res.end();
+      } else if (err instanceof HttpError) {
+        sendJson(res, err.status, { error: { category: err.category, message: err.message } });
+      } else {
+        const error = classifyError(err);
+        console.error(`${url.pathname} failed:`, err);
+        if (!res.headersSent) {
+          sendJson(res, STATUS_FOR_CATEGORY[error.category], { error: { category: error.category, message: error.message } });
+        } else {
+          res.end();
+        }
+      }
+    } finally {
+      logUsage({
+        timestamp: new Date(started).toISOString(),
+        client,
+        endpoint: url.pathname,
+        status: controller.signal.aborted ? 499 : res.statusCode,
+        ...usage,
+        ...tokens,
+        durationMs: Date.now() - started,
+      });
+    }
+  });
+};
@@ -0,0 +1,37 @@
+export interface RateLimitOptions {
+  // Requests allowed per client in each window
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the window resets
+  retryAfter: number;
+}
+
+// Fixed-window counter per client key. Windows are dropped lazily, so memory
+// stays proportional to the clients seen in the last window.
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (client: string, now = Date.now()): RateLimitResult => {
+    let window = windows.get(client);
+    if (!window || window.resetAt <= now) {
+      if (windows.size > 10_000) {
+        windows.forEach((w, key) => {
+          if (w.resetAt <= now) windows.delete(key);
+        });
+      }
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(client, window);
+    }
+    window.count++;
+    return {
+      allowed: window.count <= limit,
+      remaining: Math.max(0, limit - window.count),
+      retryAfter: Math.ceil((window.resetAt - now) / 1000),
+    };
+  };
+};
@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getPlaybackState, playSpeech, replayPlayback, resumePlayback, stopPlayback } from "./audioService";
+import { setProvider } from "./translationService";
+
+const blocked = () => new DOMException('play() can only be initiated by a user gesture.', 'NotAllowedError');
+
+let play: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  setProvider('mock');
+  URL.createObjectURL = vi.fn(() => 'blob:clip');
+  URL.revokeObjectURL = vi.fn();
+  vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  play = vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  stopPlayback();
+  vi.restoreAllMocks();
+});
+
+describe('playback', () => {
+  it('leaves a clip the browser blocked paused, with an error, until play is pressed', async () => {
+    play.mockRejectedValueOnce(blocked());
+    await playSpeech('Hola', 'es');
+    expect(getPlaybackState()).toMatchObject({ status: 'paused', error: expect.stringMatching(/blocked/) });
+
+    await resumePlayback();
+    expect(getPlaybackState()).toMatchObject({ status: 'playing', error: null });
+  });
+
+  it('reports a rejected resume or replay instead of throwing', async () => {
+    await playSpeech('Hola', 'es');
+    stopPlayback();
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    play.mockRejectedValueOnce(new DOMException('The element has no supported sources.', 'NotSupportedError'));
+    await expect(replayPlayback()).resolves.toBeUndefined();
+    expect(getPlaybackState()).toMatchObject({ status: 'idle', error: 'The element has no supported sources.' });
+  });
+
+  it('ignores a play() interrupted by stopping', async () => {
+    play.mockRejectedValueOnce(new DOMException('The play() request was interrupted.', 'AbortError'));
+    await playSpeech('Hola', 'es');
+    expect(getPlaybackState().error).toBeNull();
+  });
+});
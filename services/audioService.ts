@@ -0,0 +1,240 @@
+import { SpeechAudio } from "../types";
+import { TTS_VOICES } from "../constants";
+import { synthesizeSpeech } from "./translationService";
+import { languageName } from "./languageService";
+
+const SETTINGS_KEY = 'lingosync_voice_settings';
+// Decoded clips kept for instant replay; oldest is evicted first
+const CACHE_LIMIT = 30;
+
+export interface VoiceSettings {
+  voice: string;
+  // Playback rate multiplier, 1 = normal speed
+  rate: number;
+}
+
+export const MIN_SPEECH_RATE = 0.5;
+export const MAX_SPEECH_RATE = 2;
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface PlaybackState {
+  status: PlaybackStatus;
+  text: string;
+  languageCode: string;
+  // Seconds of audio at normal speed; 0 until the clip has loaded
+  duration: number;
+  error: string | null;
+}
+
+// Clips play through an audio element rather than the Web Audio API because
+// media elements keep the pitch when the rate changes
+interface CachedClip {
+  audio: SpeechAudio;
+  url: string;
+  duration: number;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { voice: TTS_VOICES[0], rate: 1 };
+
+// 16-bit PCM WAV container around the raw samples
+export const encodeWav = ({ data, sampleRate, numChannels }: SpeechAudio) => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) =>
+    [...value].forEach((char, i) => header.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + data.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * numChannels * 2, true);
+  header.setUint16(32, numChannels * 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, data.byteLength, true);
+
+  return new Blob([header.buffer, data], { type: 'audio/wav' });
+};
+
+const loadAllSettings = (): Record<string, VoiceSettings> => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Stored settings are checked, since they may come from an older version
+export const getVoiceSettings = (languageCode: string): VoiceSettings => {
+  const stored: Partial<VoiceSettings> = loadAllSettings()[languageCode] ?? {};
+  const rate = Number(stored.rate);
+  return {
+    voice: typeof stored.voice === 'string' && TTS_VOICES.includes(stored.voice) ? stored.voice : DEFAULT_VOICE_SETTINGS.voice,
+    rate: rate >= MIN_SPEECH_RATE && rate <= MAX_SPEECH_RATE ? rate : DEFAULT_VOICE_SETTINGS.rate,
+  };
+};
+
+export const setVoiceSettings = (languageCode: string, settings: VoiceSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...loadAllSettings(), [languageCode]: settings }));
+  if (current?.languageCode === languageCode && currentElement) {
+    currentElement.playbackRate = settings.rate;
+  }
+  emit({});
+};
+
+// --- Playback controller -------------------------------------------------
+// At most one playing clip for the whole app.
+
+const cache = new Map<string, CachedClip>();
+let current: { key: string; text: string; languageCode: string; clip?: CachedClip } | null = null;
+let currentElement: HTMLAudioElement | null = null;
+let requestId = 0;
+// Aborts the synthesis request a newer one replaces
+let requestController: AbortController | null = null;
+
+let state: PlaybackState = { status: 'idle', text: '', languageCode: '', duration: 0, error: null };
+const listeners = new Set<() => void>();
+
+const emit = (patch: Partial<PlaybackState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener());
+};
+
+export const subscribePlayback = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getPlaybackState = () => state;
+
+const cacheKey = (text: string, languageCode: string, voice: string) => `${languageCode}|${voice}|${text}`;
+
+const toClip = (audio: SpeechAudio): CachedClip => ({
+  audio,
+  url: URL.createObjectURL(encodeWav(audio)),
+  duration: audio.data.byteLength / (2 * audio.numChannels * audio.sampleRate),
+});
+
+const remember = (key: string, clip: CachedClip) => {
+  cache.delete(key);
+  cache.set(key, clip);
+  if (cache.size > CACHE_LIMIT) {
+    const [oldestKey, oldest] = cache.entries().next().value!;
+    cache.delete(oldestKey);
+    if (current?.clip !== oldest) URL.revokeObjectURL(oldest.url);
+  }
+};
+
+const stopElement = () => {
+  if (!currentElement) return;
+  currentElement.onended = null;
+  currentElement.pause();
+  currentElement = null;
+};
+
+// play() rejects when the browser blocks autoplay or can't play the clip.
+// A blocked clip is left paused, so the play button can start it with the
+// user's gesture; anything else stops playback.
+const playElement = async (element: HTMLAudioElement) => {
+  try {
+    await element.play();
+  } catch (error) {
+    // A DOMException, which isn't an Error in every environment
+    const { name, message } = (error ?? {}) as { name?: string; message?: string };
+    // Paused, stopped or replaced before it started
+    if (currentElement !== element || name === 'AbortError') return;
+    if (name === 'NotAllowedError') {
+      emit({ status: 'paused', error: 'The browser blocked playback. Press play to start it.' });
+      return;
+    }
+    console.error("Playback failed:", error);
+    stopElement();
+    emit({ status: 'idle', error: message || 'The audio could not be played.' });
+  }
+};
+
+const startClip = async (clip: CachedClip, languageCode: string) => {
+  stopElement();
+  const element = new Audio(clip.url);
+  element.preservesPitch = true;
+  element.playbackRate = getVoiceSettings(languageCode).rate;
+  element.onended = () => {
+    if (currentElement === element) {
+      currentElement = null;
+      emit({ status: 'idle' });
+    }
+  };
+  currentElement = element;
+  emit({ status: 'playing', duration: clip.duration, error: null });
+  await playElement(element);
+};
+
+// Speaks `text`, interrupting whatever is playing. Failures are reported
+// through the playback state instead of being thrown.
+export const playSpeech = async (text: string, languageCode: string) => {
+  const { voice } = getVoiceSettings(languageCode);
+  const key = cacheKey(text, languageCode, voice);
+  const id = ++requestId;
+  requestController?.abort();
+  const controller = new AbortController();
+  requestController = controller;
+
+  stopElement();
+  current = { key, text, languageCode };
+  emit({ status: 'loading', text, languageCode, duration: 0, error: null });
+
+  try {
+    let clip = cache.get(key);
+    if (!clip) {
+      clip = toClip(await synthesizeSpeech(text, languageName(languageCode), voice, { signal: controller.signal }));
+    }
+    remember(key, clip);
+    // A newer request took over while this one was loading
+    if (id !== requestId) return;
+    current.clip = clip;
+    await startClip(clip, languageCode);
+  } catch (error) {
+    if (id !== requestId) return;
+    console.error("Speech synthesis failed:", error);
+    emit({ status: 'idle', error: (error instanceof Error && error.message) || 'Speech synthesis failed.' });
+  }
+};
+
+export const pausePlayback = () => {
+  if (state.status !== 'playing' || !currentElement) return;
+  currentElement.pause();
+  emit({ status: 'paused' });
+};
+
+export const resumePlayback = async () => {
+  if (state.status !== 'paused' || !currentElement) return;
+  emit({ status: 'playing', error: null });
+  await playElement(currentElement);
+};
+
+export const stopPlayback = () => {
+  requestId++;
+  requestController?.abort();
+  stopElement();
+  emit({ status: 'idle' });
+};
+
+export const replayPlayback = async () => {
+  if (!current?.clip) return;
+  await startClip(current.clip, current.languageCode);
+};
+
+// Seconds into the current clip, measured at normal speed
+export const getPlaybackPosition = () =>
+  currentElement && current?.clip ? Math.min(currentElement.currentTime, current.clip.duration) : 0;
+
+export const clearPlaybackError = () => emit({ error: null });
+
+// The last clip as a WAV file, or null if nothing has loaded yet
+export const currentClipAsWav = () => (current?.clip ? encodeWav(current.clip.audio) : null);
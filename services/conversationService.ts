@@ -0,0 +1,29 @@
+import { ConversationTurn } from "../types";
+import { languageName } from "./languageService";
+import { toCsv } from "./fileService";
+
+
+const timeOf = (turn: ConversationTurn) => new Date(turn.timestamp).toLocaleTimeString();
+
+// Readable transcript: each utterance followed by its translation
+export const exportConversationText = (turns: ConversationTurn[], speakerNames: Record<string, string>) =>
+  turns
+    .map(turn => [
+      `[${timeOf(turn)}] ${speakerNames[turn.speaker]} (${languageName(turn.sourceLanguage)}):`,
+      turn.text,
+      `→ (${languageName(turn.targetLanguage)}) ${turn.translatedText}`,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+export const exportConversationCsv = (turns: ConversationTurn[], speakerNames: Record<string, string>) =>
+  toCsv([
+    ['timestamp', 'speaker', 'source_language', 'source_text', 'target_language', 'target_text'],
+    ...turns.map(turn => [
+      new Date(turn.timestamp).toISOString(),
+      speakerNames[turn.speaker],
+      turn.sourceLanguage,
+      turn.text,
+      turn.targetLanguage,
+      turn.translatedText,
+    ]),
+  ]);
@@ -0,0 +1,65 @@
+const DB_NAME = 'lingosync';
+const DB_VERSION = 3;
+
+export const HISTORY_STORE = 'history';
+export const MEMORY_STORE = 'translationMemory';
+
+// Each entry upgrades the schema from version `index` to `index + 1`.
+// Append new steps here and bump DB_VERSION; never edit an existing step.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+  },
+  (db) => {
+    const store = db.createObjectStore(MEMORY_STORE, { keyPath: 'id' });
+    store.createIndex('targetLanguage', 'targetLanguage');
+  },
+  (_db, tx) => {
+    tx.objectStore(MEMORY_STORE).createIndex('timestamp', 'timestamp');
+  },
+];
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](db, tx);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer tab upgrade the schema instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
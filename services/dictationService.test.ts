@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { isWindowBoundary } from "./dictationService";
+
+describe('isWindowBoundary', () => {
+  it('waits for a pause before cutting a window', () => {
+    expect(isWindowBoundary(3000, 0)).toBe(false);
+    expect(isWindowBoundary(3000, 100)).toBe(false);
+    expect(isWindowBoundary(3000, 300)).toBe(true);
+  });
+
+  it('keeps short windows whole even across a pause', () => {
+    expect(isWindowBoundary(1000, 800)).toBe(false);
+  });
+
+  it('cuts a window that never pauses at the maximum length', () => {
+    expect(isWindowBoundary(9900, 0)).toBe(false);
+    expect(isWindowBoundary(10_000, 0)).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import { transcribeAudio } from "./translationService";
+import { TranslationError, classifyError } from "./requestService";
+
+// The recording is cut into windows, each a complete audio file transcribed
+// once, so cost grows with the length of the dictation rather than with its
+// square. A window ends at a pause once it is MIN_WINDOW_MS long, so words
+// aren't cut in half; MAX_WINDOW_MS ends it when the speaker never pauses.
+const MIN_WINDOW_MS = 2000;
+const MAX_WINDOW_MS = 10_000;
+const PAUSE_MS = 300;
+// How often the microphone level is sampled
+const LEVEL_CHECK_MS = 100;
+// RMS amplitude below which the input counts as silence
+const SILENCE_LEVEL = 0.01;
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT = /[\u0E00-\u0E7F\u3040-\u30FF\u3400-\u9FFF\uF900-\uFAFF]/;
+
+export interface DictationOptions {
+  // Language name passed to the transcriber; undefined means auto-detect
+  languageName?: string;
+  onTranscript: (text: string, isFinal: boolean) => void;
+  onError: (error: TranslationError) => void;
+}
+
+export interface DictationSession {
+  // Stops recording and resolves once the final transcript has been delivered
+  stop: () => Promise<void>;
+  // Stops recording and discards everything
+  cancel: () => void;
+}
+
+const pickMimeType = () =>
+  ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4']
+    .find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+export const isDictationSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+
+export const isWindowBoundary = (elapsedMs: number, quietMs: number) =>
+  elapsedMs >= MAX_WINDOW_MS || (elapsedMs >= MIN_WINDOW_MS && quietMs >= PAUSE_MS);
+
+// Null where Web Audio is unavailable; windows then run to MAX_WINDOW_MS
+const levelMeter = (stream: MediaStream) => {
+  if (typeof AudioContext === 'undefined') return null;
+  try {
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    context.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    return {
+      level: () => {
+        analyser.getFloatTimeDomainData(samples);
+        return Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      },
+      close: () => context.close().catch(() => {}),
+    };
+  } catch {
+    return null;
+  }
+};
+
+const joinTranscripts = (pieces: string[]) =>
+  pieces.reduce((text, piece) => {
+    if (!text) return piece;
+    const unspaced = UNSPACED_SCRIPT.test(text.slice(-1)) || UNSPACED_SCRIPT.test(piece[0]);
+    return text + (unspaced ? '' : ' ') + piece;
+  }, '');
+
+// Records from the microphone and streams transcripts back. Windows are
+// transcribed one at a time, in order; every transcript passed to
+// onTranscript covers the whole dictation so far.
+export const startDictation = async ({ languageName, onTranscript, onError }: DictationOptions): Promise<DictationSession> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = pickMimeType();
+  const pieces: string[] = [];
+  let closed = false;
+  let cancelled = false;
+  // Aborts the transcription in flight when the session is cancelled
+  const controller = new AbortController();
+  // Transcriptions run one after another; a new window waits for the last
+  let queue = Promise.resolve();
+
+  const transcribeWindow = (audio: Blob) => {
+    queue = queue.then(async () => {
+      if (cancelled) return;
+      try {
+        const text = (await transcribeAudio(audio, languageName, { signal: controller.signal })).trim();
+        if (text) pieces.push(text);
+        if (!closed) onTranscript(joinTranscripts(pieces), false);
+      } catch (err) {
+        if (!cancelled) onError(classifyError(err));
+      }
+    });
+  };
+
+  const record = () => {
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const done = new Promise<void>(resolve => {
+      recorder.onstop = () => {
+        if (chunks.length) transcribeWindow(new Blob(chunks, { type: recorder.mimeType || mimeType }));
+        resolve();
+      };
+    });
+    recorder.start();
+    return { recorder, done };
+  };
+
+  const meter = levelMeter(stream);
+  let current = record();
+  let windowStart = Date.now();
+  let quietSince: number | null = null;
+  const rotation = window.setInterval(() => {
+    const now = Date.now();
+    if (meter && meter.level() < SILENCE_LEVEL) quietSince ??= now;
+    else quietSince = null;
+    if (!isWindowBoundary(now - windowStart, quietSince === null ? 0 : now - quietSince)) return;
+    current.recorder.stop();
+    current = record();
+    windowStart = now;
+    quietSince = null;
+  }, LEVEL_CHECK_MS);
+
+  const release = () => {
+    window.clearInterval(rotation);
+    if (current.recorder.state !== 'inactive') current.recorder.stop();
+    meter?.close();
+    stream.getTracks().forEach(track => track.stop());
+  };
+
+  return {
+    stop: async () => {
+      if (closed) return;
+      closed = true;
+      release();
+      await current.done;
+      await queue;
+      onTranscript(joinTranscripts(pieces), true);
+    },
+    cancel: () => {
+      closed = true;
+      cancelled = true;
+      controller.abort();
+      release();
+    },
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { diffWords } from "./diffService";
+
+const rebuild = (parts: ReturnType<typeof diffWords>, keep: 'insert' | 'delete') =>
+  parts.filter(part => part.operation !== keep).map(part => part.text).join('');
+
+describe('diffWords', () => {
+  it('reports identical text as a single equal part', () => {
+    expect(diffWords('same text', 'same text')).toEqual([{ operation: 'equal', text: 'same text' }]);
+  });
+
+  it('marks replaced words as a deletion and an insertion', () => {
+    expect(diffWords('the red car', 'the blue car')).toEqual([
+      { operation: 'equal', text: 'the ' },
+      { operation: 'delete', text: 'red' },
+      { operation: 'insert', text: 'blue' },
+      { operation: 'equal', text: ' car' },
+    ]);
+  });
+
+  it('gives back both inputs', () => {
+    const before = 'One two three four';
+    const after = 'One three  four five';
+    const parts = diffWords(before, after);
+    expect(rebuild(parts, 'insert')).toBe(before);
+    expect(rebuild(parts, 'delete')).toBe(after);
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('', 'new')).toEqual([{ operation: 'insert', text: 'new' }]);
+    expect(diffWords('old', '')).toEqual([{ operation: 'delete', text: 'old' }]);
+  });
+});
@@ -0,0 +1,46 @@
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  operation: DiffOperation;
+  text: string;
+}
+
+// Words and the whitespace between them, so joining the tokens gives the input back
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+// Word-level diff from `before` to `after` via longest common subsequence.
+// Sentences are short, so the quadratic table is fine.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (operation: DiffOperation, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.operation === operation) last.text += text;
+    else parts.push({ operation, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+  return parts;
+};
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { TranslationProvider } from "../types";
+import { mockProvider } from "./mockProvider";
+import { detectFormat, parseDocument, translateDocument } from "./documentService";
+import { MAX_CHUNK_TOKENS } from "./segmentService";
+import { MAX_INPUT_CHARS } from "./inputService";
+import { setProvider } from "./translationService";
+
+// Upper-cases the text but leaves markers and separators as they are
+const shout = (text: string) => text.replace(/[a-z]+/g, word => word.toUpperCase());
+
+const providerFrom = (transform: (text: string) => string): TranslationProvider => ({
+  ...mockProvider,
+  translateStream: async (text, _source, _target, onChunk) => onChunk(transform(text)),
+});
+
+afterEach(() => setProvider('mock'));
+
+describe('detectFormat', () => {
+  it('maps extensions case-insensitively', () => {
+    expect(detectFormat('notes.MD')).toBe('md');
+    expect(detectFormat('strings.json')).toBe('json');
+    expect(detectFormat('movie.en.srt')).toBe('srt');
+    expect(detectFormat('archive.zip')).toBeNull();
+  });
+});
+
+describe('parseDocument', () => {
+  it('rebuilds every format unchanged from its own segments', () => {
+    const samples = {
+      txt: 'First paragraph.\n\nSecond paragraph.\n',
+      md: '# Title\n\nSee [the docs](https://example.com) and `npm test`.\n\n```\ncode stays\n```\n',
+      srt: '1\n00:00:01,000 --> 00:00:02,000\nHello there.\n\n2\n00:00:03,000 --> 00:00:04,000\nGoodbye.\n',
+      vtt: 'WEBVTT\n\n00:01.000 --> 00:02.000\nHello there.\n',
+      json: '{\n  "greeting": "Hello {name}",\n  "count": 3\n}\n',
+    } as const;
+    (Object.keys(samples) as (keyof typeof samples)[]).forEach(format => {
+      const doc = parseDocument(samples[format], format);
+      expect(doc.rebuild(doc.segments)).toBe(samples[format]);
+    });
+  });
+
+  it('keeps markdown code, fences and link targets out of the segments', () => {
+    const doc = parseDocument('See [the docs](https://example.com) and `npm test`.\n\n```\ncode stays\n```\n', 'md');
+    expect(doc.segments).toEqual(['See [the docs⟦0⟧ and ⟦1⟧.']);
+  });
+
+  it('leaves subtitle numbers and timings fixed', () => {
+    const doc = parseDocument('1\n00:00:01,000 --> 00:00:02,000\nHello there.\n', 'srt');
+    expect(doc.segments).toEqual(['Hello there.\n']);
+    expect(doc.rebuild(['Bonjour.\n'])).toBe('1\n00:00:01,000 --> 00:00:02,000\nBonjour.\n');
+  });
+
+  it('translates JSON string values only and protects placeholders', () => {
+    const doc = parseDocument('{"a": "Hello {name}", "b": ["Bye %s", 2], "c": true}', 'json');
+    expect(doc.segments).toEqual(['Hello ⟦0⟧', 'Bye ⟦0⟧']);
+    expect(JSON.parse(doc.rebuild(['Bonjour ⟦0⟧', 'Salut ⟦0⟧']))).toEqual({ a: 'Bonjour {name}', b: ['Salut %s', 2], c: true });
+  });
+
+  it('reports translations that lost or repeated a marker', () => {
+    const doc = parseDocument('{"a": "Hi {name}", "b": "Bye {name}", "c": "Plain"}', 'json');
+    expect(doc.damaged(['Salut ⟦0⟧', 'Au revoir', 'Simple'])).toEqual([1]);
+    expect(doc.damaged(['⟦0⟧ ⟦0⟧', 'Au revoir ⟦0⟧', 'Simple'])).toEqual([0]);
+  });
+});
+
+describe('translateDocument', () => {
+  it('translates prose and restores protected spans', async () => {
+    setProvider(providerFrom(shout));
+    const doc = parseDocument('Read [the guide](https://example.com/guide) first.\n', 'md');
+    expect(await translateDocument(doc, 'en', 'fr')).toBe('READ [THE GUIDE](https://example.com/guide) FIRST.\n');
+  });
+
+  it('retranslates segments that dropped a marker', async () => {
+    let calls = 0;
+    setProvider(providerFrom(text => (calls++ === 0 ? text.replace('⟦0⟧', '') : shout(text))));
+    const doc = parseDocument('{"a": "Hello {name}"}', 'json');
+    expect(JSON.parse(await translateDocument(doc, 'en', 'fr'))).toEqual({ a: 'HELLO {name}' });
+    expect(calls).toBe(2);
+  });
+
+  it('splits a text file with CRLF blank lines into paragraphs and keeps its line breaks', async () => {
+    setProvider(providerFrom(shout));
+    const doc = parseDocument('First paragraph.\r\n\r\nSecond paragraph.\r\n', 'txt');
+    expect(doc.segments).toEqual(['First paragraph.', 'Second paragraph.\n']);
+    expect(await translateDocument(doc, 'en', 'fr')).toBe('FIRST PARAGRAPH.\r\n\r\nSECOND PARAGRAPH.\r\n');
+  });
+
+  it('never sends a request over the chunk size, even for one 60,000 character paragraph', async () => {
+    const sizes: number[] = [];
+    setProvider(providerFrom(text => {
+      sizes.push(text.length);
+      return shout(text);
+    }));
+    const sentence = 'this line has no blank line after it and goes on. ';
+    const content = sentence.repeat(Math.ceil(60_000 / sentence.length)).trim() + '\n' + 'x'.repeat(5000);
+    const doc = parseDocument(content, 'txt');
+    expect(doc.segments).toHaveLength(1);
+
+    const translated = await translateDocument(doc, 'en', 'fr');
+    expect(translated).toBe(shout(content));
+    expect(Math.max(...sizes)).toBeLessThan(MAX_INPUT_CHARS);
+    expect(Math.max(...sizes)).toBeLessThanOrEqual(MAX_CHUNK_TOKENS * 5);
+  });
+
+  it('refuses to export when markers stay missing', async () => {
+    setProvider(providerFrom(text => text.replace(/⟦\d+⟧/g, '')));
+    const doc = parseDocument('{"a": "Hello {name}"}', 'json');
+    await expect(translateDocument(doc, 'en', 'fr')).rejects.toMatchObject({ category: 'invalid-response' });
+  });
+});
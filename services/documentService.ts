@@ -0,0 +1,289 @@
+import { SegmentTranslationOptions, translateSegments } from "./segmentService";
+import { TranslationError } from "./requestService";
+
+export type DocumentFormat = 'txt' | 'md' | 'srt' | 'vtt' | 'json';
+
+export interface TranslatableDocument {
+  format: DocumentFormat;
+  // Prose the model should see, in document order
+  segments: string[];
+  // Reassembles the file from one translation per segment
+  rebuild: (translations: string[]) => string;
+  // Indices of translations that lost or repeated a protected span's marker
+  damaged: (translations: string[]) => number[];
+}
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  txt: 'txt',
+  text: 'txt',
+  md: 'md',
+  markdown: 'md',
+  srt: 'srt',
+  vtt: 'vtt',
+  json: 'json',
+};
+
+export const ACCEPTED_EXTENSIONS = Object.keys(EXTENSIONS).map(ext => `.${ext}`);
+
+const MIME_TYPES: Record<DocumentFormat, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  json: 'application/json',
+};
+
+export const detectFormat = (fileName: string): DocumentFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSIONS[ext] ?? null;
+};
+
+export const mimeTypeFor = (format: DocumentFormat) => MIME_TYPES[format];
+
+interface Slot {
+  masked: string;
+  restore: (translated: string) => string;
+  // Whether every marker came back exactly once
+  intact: (translated: string) => boolean;
+}
+
+const unprotected = (text: string): Slot => ({ masked: text, restore: t => t, intact: () => true });
+
+// Text the model must not touch is swapped for numbered markers, which the
+// system prompt tells it to copy unchanged, and put back after translation
+const protect = (text: string, pattern: RegExp): Slot => {
+  const saved: string[] = [];
+  const masked = text.replace(pattern, (match) => {
+    saved.push(match);
+    return `⟦${saved.length - 1}⟧`;
+  });
+  const restore = (translated: string) =>
+    translated.replace(/⟦(\d+)⟧/g, (marker, index) => saved[Number(index)] ?? marker);
+  const intact = (translated: string) =>
+    saved.every((_, i) => translated.split(`⟦${i}⟧`).length === 2);
+  return { masked, restore, intact };
+};
+
+const damagedSlots = (slots: Slot[], translations: string[]) =>
+  slots.flatMap((slot, i) => (translations[i] === undefined || slot.intact(translations[i]) ? [] : [i]));
+
+// Inline code spans, autolinks, the URL half of links and images, and
+// reference-style link definitions
+const MARKDOWN_PROTECTED = /`[^`\n]+`|\]\([^)\s]+(?:\s+"[^"]*")?\)|<https?:\/\/[^>]+>|^\s*\[[^\]]+\]:\s*\S+.*$/gm;
+// {name}, {{count}}, %s, %1$d and similar interpolation placeholders
+const PLACEHOLDER_PROTECTED = /\{\{[^{}]+\}\}|\{[^{}]+\}|%(?:\d+\$)?[sdif@]/g;
+
+interface Part {
+  text: string;
+  translatable: boolean;
+}
+
+// Builds a document out of alternating fixed and translatable parts
+const fromParts = (format: DocumentFormat, parts: Part[], pattern?: RegExp): TranslatableDocument => {
+  const slots = parts
+    .filter(part => part.translatable)
+    .map(part => (pattern ? protect(part.text, pattern) : unprotected(part.text)));
+
+  return {
+    format,
+    segments: slots.map(slot => slot.masked),
+    rebuild: (translations) => {
+      let slot = 0;
+      return parts
+        .map(part => {
+          if (!part.translatable) return part.text;
+          const { restore } = slots[slot];
+          return restore(translations[slot++] ?? part.text);
+        })
+        .join('');
+    },
+    damaged: (translations) => damagedSlots(slots, translations),
+  };
+};
+
+const isBlank = (line: string) => line.trim() === '';
+
+// Paragraphs separated by blank lines; the separators themselves stay fixed
+const parsePlainText = (content: string): Part[] =>
+  content
+    .split(/(\n[ \t]*\n+)/)
+    .map((text, i) => ({ text, translatable: i % 2 === 0 && !isBlank(text) }));
+
+const parseMarkdown = (content: string): Part[] => {
+  const parts: Part[] = [];
+  const lines = content.split('\n');
+  let fence: string | null = null;
+  let paragraph: string[] = [];
+
+  const push = (text: string, translatable: boolean) => {
+    const last = parts[parts.length - 1];
+    if (last && last.translatable === translatable && !translatable) {
+      last.text += text;
+    } else {
+      parts.push({ text, translatable });
+    }
+  };
+  const flushParagraph = () => {
+    if (paragraph.length) push(paragraph.join('\n'), true);
+    paragraph = [];
+  };
+
+  lines.forEach((line, i) => {
+    const newline = i < lines.length - 1 ? '\n' : '';
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+
+    if (fence) {
+      push(line + newline, false);
+      if (fenceMatch && fenceMatch[1] === fence) fence = null;
+      return;
+    }
+    if (fenceMatch) {
+      flushParagraph();
+      fence = fenceMatch[1];
+      push(line + newline, false);
+      return;
+    }
+    // Blank lines and indented code blocks are layout, not prose
+    if (isBlank(line) || /^( {4}|\t)/.test(line) && paragraph.length === 0) {
+      flushParagraph();
+      push(line + newline, false);
+      return;
+    }
+    paragraph.push(line);
+    if (newline) {
+      // Keep the line break that ends the paragraph outside the segment
+      const next = lines[i + 1];
+      if (isBlank(next) || /^\s*(```|~~~)/.test(next)) {
+        flushParagraph();
+        push(newline, false);
+      }
+    }
+  });
+  flushParagraph();
+  return parts;
+};
+
+// SRT and VTT share a shape: blank-line separated blocks whose cue text
+// follows a timing line. Headers, NOTE and STYLE blocks have no timing line.
+const parseSubtitles = (content: string): Part[] => {
+  const parts: Part[] = [];
+  content.split(/(\r?\n[ \t]*\r?\n+)/).forEach((block, i) => {
+    if (i % 2 === 1) {
+      parts.push({ text: block, translatable: false });
+      return;
+    }
+    const lines = block.split(/\r?\n/);
+    const timing = lines.findIndex(line => line.includes('-->'));
+    const isNote = /^(NOTE|STYLE|REGION)\b/.test(lines[0] ?? '');
+    if (timing === -1 || isNote || timing === lines.length - 1) {
+      parts.push({ text: block, translatable: false });
+      return;
+    }
+    const lineBreak = block.includes('\r\n') ? '\r\n' : '\n';
+    parts.push({ text: lines.slice(0, timing + 1).join(lineBreak) + lineBreak, translatable: false });
+    parts.push({ text: lines.slice(timing + 1).join(lineBreak), translatable: true });
+  });
+  return parts;
+};
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+type JsonPath = (string | number)[];
+
+const childOf = (node: JsonValue, key: string | number): JsonValue =>
+  Array.isArray(node) ? node[Number(key)] : node !== null && typeof node === 'object' ? node[key] : null;
+
+const valueAt = (root: JsonValue, path: JsonPath) => path.reduce(childOf, root);
+
+// Only called with paths collected from the same tree, so every parent exists
+const setValueAt = (root: JsonValue, path: JsonPath, value: JsonValue) => {
+  const parent = valueAt(root, path.slice(0, -1));
+  const key = path[path.length - 1];
+  if (Array.isArray(parent)) parent[Number(key)] = value;
+  else if (parent !== null && typeof parent === 'object') parent[key] = value;
+};
+
+const parseJson = (content: string): TranslatableDocument => {
+  const root: JsonValue = JSON.parse(content);
+  const paths: JsonPath[] = [];
+
+  const walk = (value: JsonValue, path: JsonPath) => {
+    if (typeof value === 'string') {
+      if (value.trim()) paths.push(path);
+    } else if (Array.isArray(value)) {
+      value.forEach((child, i) => walk(child, [...path, i]));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, child]) => walk(child, [...path, key]));
+    }
+  };
+  walk(root, []);
+
+  const read = (path: JsonPath) => String(valueAt(root, path));
+  const slots = paths.map(path => protect(read(path), PLACEHOLDER_PROTECTED));
+
+  return {
+    format: 'json',
+    segments: slots.map(slot => slot.masked),
+    rebuild: (translations) => {
+      const copy = structuredClone(root);
+      paths.forEach((path, i) => {
+        const value = slots[i].restore(translations[i] ?? read(path));
+        if (path.length > 0) setValueAt(copy, path, value);
+      });
+      // A bare top-level string is the only value that can't be set in place
+      if (paths.length === 1 && paths[0].length === 0) {
+        return JSON.stringify(slots[0].restore(translations[0] ?? read([])));
+      }
+      return JSON.stringify(copy, null, 2) + '\n';
+    },
+    damaged: (translations) => damagedSlots(slots, translations),
+  };
+};
+
+// Text and Markdown are parsed with \n line breaks; a file written with
+// \r\n gets them back when it is rebuilt
+const withLineBreaks = (content: string, parse: (normalized: string) => TranslatableDocument): TranslatableDocument => {
+  if (!content.includes('\r\n')) return parse(content);
+  const doc = parse(content.replace(/\r\n/g, '\n'));
+  return { ...doc, rebuild: (translations) => doc.rebuild(translations).replace(/\r?\n/g, '\r\n') };
+};
+
+export const parseDocument = (content: string, format: DocumentFormat): TranslatableDocument => {
+  switch (format) {
+    case 'json':
+      return parseJson(content);
+    case 'md':
+      return withLineBreaks(content, normalized => fromParts(format, parseMarkdown(normalized), MARKDOWN_PROTECTED));
+    case 'srt':
+    case 'vtt':
+      return fromParts(format, parseSubtitles(content));
+    default:
+      return withLineBreaks(content, normalized => fromParts(format, parsePlainText(normalized)));
+  }
+};
+
+// Segments whose protected spans didn't survive are translated once more; if
+// they still come back damaged the document is rejected rather than exported
+// with links, code or placeholders missing
+export const translateDocument = async (
+  doc: TranslatableDocument,
+  sourceLang: string,
+  targetLang: string,
+  options: SegmentTranslationOptions = {}
+) => {
+  const translations = await translateSegments(doc.segments, sourceLang, targetLang, options);
+  const damaged = doc.damaged(translations);
+  if (damaged.length > 0) {
+    const { onProgress, onPartial, ...retryOptions } = options;
+    const retried = await translateSegments(damaged.map(i => doc.segments[i]), sourceLang, targetLang, retryOptions);
+    damaged.forEach((segmentIndex, j) => {
+      translations[segmentIndex] = retried[j];
+    });
+    if (doc.damaged(translations).length > 0) {
+      throw new TranslationError(
+        'invalid-response',
+        'The translation dropped links, code or placeholders that must stay unchanged, so the file was not exported. Try again.'
+      );
+    }
+  }
+  return doc.rebuild(translations);
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { ExportEntry, exportBilingualCsv, exportFile, exportText, exportWordHtml, exportXliff } from "./exportService";
+
+const entry = (overrides: Partial<ExportEntry> = {}): ExportEntry => ({
+  sourceText: 'Hello',
+  translatedText: 'Hola',
+  sourceLanguage: 'en',
+  targetLanguage: 'es',
+  ...overrides,
+});
+
+describe('exportText', () => {
+  it('lists each pair with its source and translation', () => {
+    expect(exportText([entry()])).toBe('English → Spanish\nHello\n\nHola\n');
+  });
+
+  it('labels an undetected auto source as undetermined', () => {
+    expect(exportText([entry({ sourceLanguage: 'auto' })])).toMatch(/^und → Spanish/);
+  });
+});
+
+describe('exportBilingualCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const csv = exportBilingualCsv([entry({ sourceText: 'Hi, "you"\nthere', timestamp: 0 })]);
+    expect(csv).toBe(
+      'timestamp,source_language,target_language,source_text,target_text\r\n' +
+      '1970-01-01T00:00:00.000Z,en,es,"Hi, ""you""\nthere",Hola\r\n'
+    );
+  });
+});
+
+describe('exportWordHtml', () => {
+  it('escapes text and marks each cell with its language and direction', () => {
+    const html = exportWordHtml([entry({ sourceText: '<b>', translatedText: 'مرحبا', targetLanguage: 'ar' })]);
+    expect(html).toContain('<td lang="en" dir="ltr">&lt;b&gt;</td>');
+    expect(html).toContain('<td lang="ar" dir="rtl">مرحبا</td>');
+  });
+});
+
+describe('exportXliff', () => {
+  it('writes one unit per entry with the pair on the root element', () => {
+    const xliff = exportXliff([entry(), entry({ sourceText: 'A & B', translatedText: 'A y B' })]);
+    expect(xliff).toContain('srcLang="en" trgLang="es"');
+    expect(xliff).toContain('<unit id="u2">');
+    expect(xliff).toContain('<source xml:space="preserve">A &amp; B</source>');
+  });
+});
+
+describe('exportFile', () => {
+  it('returns nothing for no entries', () => {
+    expect(exportFile([], 'txt', 'history')).toBeNull();
+  });
+
+  it('uses the format extension and MIME type', () => {
+    expect(exportFile([entry()], 'html', 'history')).toMatchObject({ fileName: 'history.doc', mimeType: 'application/msword' });
+  });
+
+  it('bundles XLIFF for several language pairs into one 1.2 document', () => {
+    const file = exportFile([entry(), entry({ targetLanguage: 'fr', translatedText: 'Bonjour' }), entry()], 'xliff', 'history')!;
+    expect(file.fileName).toBe('history.xlf');
+    expect(file.content).toContain('version="1.2"');
+    expect(file.content.match(/<file /g)).toHaveLength(2);
+    expect(file.content).toContain('source-language="en" target-language="es"');
+    expect(file.content).toContain('source-language="en" target-language="fr"');
+    expect(file.content.match(/<trans-unit /g)).toHaveLength(3);
+    expect(file.content).toContain('<target state="translated">Bonjour</target>');
+  });
+
+  it('keeps a single-pair XLIFF export in XLIFF 2.0', () => {
+    const file = exportFile([entry(), entry()], 'xliff', 'history')!;
+    expect(file.fileName).toBe('history.xlf');
+    expect(file.content).toContain('srcLang="en" trgLang="es"');
+  });
+});
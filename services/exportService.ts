@@ -0,0 +1,148 @@
+import { TranslationResult } from "../types";
+import { escapeXml, toCsv } from "./fileService";
+import { languageName, textDirection } from "./languageService";
+
+export type ExportFormat = 'txt' | 'html' | 'csv' | 'xliff';
+
+// The current translation or a history entry
+export interface ExportEntry extends TranslationResult {
+  sourceText: string;
+  timestamp?: number;
+}
+
+export interface ExportFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  txt: { label: 'Plain text (.txt)', extension: 'txt', mimeType: 'text/plain' },
+  // Word opens HTML saved with a .doc extension and keeps the table layout
+  html: { label: 'Word (.doc)', extension: 'doc', mimeType: 'application/msword' },
+  csv: { label: 'Bilingual CSV (.csv)', extension: 'csv', mimeType: 'text/csv' },
+  xliff: { label: 'XLIFF (.xlf)', extension: 'xlf', mimeType: 'application/xliff+xml' },
+};
+
+// "und" when an auto-detected source was never identified
+const sourceCode = (entry: ExportEntry) =>
+  entry.sourceLanguage === 'auto' ? entry.detectedLanguage || 'und' : entry.sourceLanguage;
+
+const pairLabel = (entry: ExportEntry) =>
+  `${languageName(sourceCode(entry))} → ${languageName(entry.targetLanguage)}`;
+
+export const exportText = (entries: ExportEntry[]) =>
+  entries
+    .map(entry => [pairLabel(entry), entry.sourceText, '', entry.translatedText].join('\n'))
+    .join('\n\n---\n\n') + '\n';
+
+export const exportBilingualCsv = (entries: ExportEntry[]) =>
+  toCsv([
+    ['timestamp', 'source_language', 'target_language', 'source_text', 'target_text'],
+    ...entries.map(entry => [
+      entry.timestamp === undefined ? '' : new Date(entry.timestamp).toISOString(),
+      sourceCode(entry),
+      entry.targetLanguage,
+      entry.sourceText,
+      entry.translatedText,
+    ]),
+  ]);
+
+const htmlCell = (text: string, lang: string) =>
+  `<td lang="${escapeXml(lang)}" dir="${textDirection(lang)}">${escapeXml(text).replace(/\r?\n/g, '<br>')}</td>`;
+
+// A two-column table that Word and Google Docs import as an editable document
+export const exportWordHtml = (entries: ExportEntry[]) => {
+  const rows = entries.map(entry => `      <tr>
+        ${htmlCell(entry.sourceText, sourceCode(entry))}
+        ${htmlCell(entry.translatedText, entry.targetLanguage)}
+      </tr>`);
+  const heading = entries.length === 1 ? pairLabel(entries[0]) : 'Translations';
+  return `<!DOCTYPE html>
+<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeXml(heading)}</title>
+  <style>
+    body { font-family: Calibri, Arial, sans-serif; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #d1d5db; padding: 6pt; vertical-align: top; text-align: start; }
+  </style>
+</head>
+<body>
+  <h1>${escapeXml(heading)}</h1>
+  <table>
+    <thead>
+      <tr><th>Source</th><th>Translation</th></tr>
+    </thead>
+    <tbody>
+${rows.join('\n')}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+};
+
+// XLIFF 2.0 holds a single language pair per document; see exportXliffBundle
+// for entries that mix pairs
+export const exportXliff = (entries: ExportEntry[]) => {
+  const units = entries.map((entry, i) => `    <unit id="u${i + 1}">
+      <segment state="translated">
+        <source xml:space="preserve">${escapeXml(entry.sourceText)}</source>
+        <target xml:space="preserve">${escapeXml(entry.translatedText)}</target>
+      </segment>
+    </unit>`);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(sourceCode(entries[0]))}" trgLang="${escapeXml(entries[0].targetLanguage)}">
+  <file id="f1">
+${units.join('\n')}
+  </file>
+</xliff>
+`;
+};
+
+const groupByPair = (entries: ExportEntry[]) => {
+  const groups = new Map<string, ExportEntry[]>();
+  for (const entry of entries) {
+    const pair = `${sourceCode(entry)}-${entry.targetLanguage}`;
+    const group = groups.get(pair);
+    if (group) group.push(entry);
+    else groups.set(pair, [entry]);
+  }
+  return groups;
+};
+
+// XLIFF 1.2 sets the languages per <file>, so one document can carry every
+// pair, one <file> each
+export const exportXliffBundle = (entries: ExportEntry[]) => {
+  const files = [...groupByPair(entries)].map(([pair, group]) => {
+    const units = group.map((entry, i) => `      <trans-unit id="u${i + 1}" xml:space="preserve">
+        <source>${escapeXml(entry.sourceText)}</source>
+        <target state="translated">${escapeXml(entry.translatedText)}</target>
+      </trans-unit>`);
+    return `  <file original="${escapeXml(pair)}" datatype="plaintext" source-language="${escapeXml(sourceCode(group[0]))}" target-language="${escapeXml(group[0].targetLanguage)}">
+    <body>
+${units.join('\n')}
+    </body>
+  </file>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff xmlns="urn:oasis:names:tc:xliff:document:1.2" version="1.2">
+${files.join('\n')}
+</xliff>
+`;
+};
+
+// Always a single file; XLIFF falls back to the 1.2 bundle when the entries
+// mix language pairs
+export const exportFile = (entries: ExportEntry[], format: ExportFormat, baseName: string): ExportFile | null => {
+  if (entries.length === 0) return null;
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const content = format === 'txt' ? exportText(entries)
+    : format === 'html' ? exportWordHtml(entries)
+    : format === 'csv' ? exportBilingualCsv(entries)
+    : groupByPair(entries).size > 1 ? exportXliffBundle(entries)
+    : exportXliff(entries);
+  return { fileName: `${baseName}.${extension}`, content, mimeType };
+};
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// What the fake model returns as its JSON text
+let responseText = '';
+
+vi.mock("@google/genai", async (importOriginal) => ({
+  ...await importOriginal<typeof import("@google/genai")>(),
+  GoogleGenAI: class {
+    models = {
+      generateContent: async () => ({ text: responseText }),
+    };
+  },
+}));
+
+const { assessQuality, detectLanguage, extractImageText, translateAlternatives, translateText } = await import("./geminiService");
+
+const respond = (value: unknown) => {
+  responseText = JSON.stringify(value);
+};
+
+beforeEach(() => {
+  responseText = '';
+});
+
+describe('geminiService response parsing', () => {
+  it('keeps well-formed quality issues and drops malformed ones', async () => {
+    respond({
+      score: 87.6,
+      summary: 'Mostly fine.',
+      issues: [
+        { type: 'omission', severity: 'major', span: 'the cat', explanation: 'Missing.' },
+        { type: 'style', severity: 'major', span: 'x', explanation: 'Unknown type.' },
+        { type: 'mistranslation', severity: 'huge', span: 'dog' },
+        { type: 'formatting', span: 42 },
+        null,
+        'nonsense',
+      ],
+    });
+    expect(await assessQuality('Source', 'Translation', 'en', 'fr')).toEqual({
+      score: 88,
+      summary: 'Mostly fine.',
+      issues: [
+        { type: 'omission', severity: 'major', span: 'the cat', explanation: 'Missing.' },
+        { type: 'mistranslation', severity: 'minor', span: 'dog', explanation: '' },
+      ],
+    });
+  });
+
+  it('rejects an assessment without a numeric score', async () => {
+    respond({ score: '90', summary: 'Fine', issues: [] });
+    await expect(assessQuality('Source', 'Translation', 'en', 'fr')).rejects.toMatchObject({ category: 'invalid-response' });
+  });
+
+  it('keeps text blocks with text and a valid box only', async () => {
+    respond({
+      blocks: [
+        { text: 'EXIT', box_2d: [100, 200, 300, 400] },
+        { text: '  ', box_2d: [100, 200, 300, 400] },
+        { text: 'Upside down', box_2d: [300, 200, 100, 400] },
+        { text: 'Short box', box_2d: [1, 2, 3] },
+        { box_2d: [100, 200, 300, 400] },
+        7,
+      ],
+    });
+    const blocks = await extractImageText(new Blob(['png'], { type: 'image/png' }));
+    expect(blocks).toEqual([{
+      text: 'EXIT',
+      box: { x: expect.closeTo(0.2), y: expect.closeTo(0.1), width: expect.closeTo(0.2), height: expect.closeTo(0.2) },
+    }]);
+  });
+
+  it('treats a missing blocks list as no text', async () => {
+    respond({ blocks: 'none' });
+    expect(await extractImageText(new Blob(['png'], { type: 'image/png' }))).toEqual([]);
+  });
+
+  it('reads translations, alternatives and detections defensively', async () => {
+    respond({ translatedText: 'Hola', detectedLanguage: 5 });
+    expect(await translateText('Hello', 'auto', 'es')).toMatchObject({ translatedText: 'Hola', detectedLanguage: undefined });
+
+    respond({ alternatives: [{ translatedText: 'Buenas', note: 1 }, { translatedText: '' }, {}] });
+    expect(await translateAlternatives('Hello', 'en', 'es')).toEqual([{ translatedText: 'Buenas', note: '' }]);
+
+    respond({ language: 3, confidence: 'high' });
+    expect(await detectLanguage('Hello')).toEqual({ language: 'und', confidence: 0 });
+  });
+
+  it('reports unparseable output as an invalid response', async () => {
+    responseText = 'not json';
+    await expect(translateText('Hello', 'en', 'es')).rejects.toMatchObject({ category: 'invalid-response' });
+  });
+});
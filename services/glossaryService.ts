@@ -0,0 +1,183 @@
+import { GlossaryEntry } from "../types";
+import { escapeXml, parseCsv, toCsv } from "./fileService";
+
+const STORAGE_KEY = 'lingosync_glossary';
+
+export interface GlossaryViolation {
+  entry: GlossaryEntry;
+  // Where the source term was left untranslated in the output, if anywhere
+  ranges: { start: number; end: number }[];
+}
+
+const isGlossaryEntry = (value: unknown): value is GlossaryEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.sourceLanguage === 'string' &&
+    typeof entry.targetLanguage === 'string' &&
+    typeof entry.sourceTerm === 'string' &&
+    typeof entry.targetTerm === 'string'
+  );
+};
+
+export const loadGlossary = (): GlossaryEntry[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(isGlossaryEntry) : [];
+  } catch (e) {
+    console.error("Failed to load glossary", e);
+    return [];
+  }
+};
+
+export const saveGlossary = (entries: GlossaryEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
+
+export const createEntry = (
+  sourceLanguage: string,
+  targetLanguage: string,
+  sourceTerm: string,
+  targetTerm: string,
+  doNotTranslate = false
+): GlossaryEntry => ({
+  id: crypto.randomUUID(),
+  sourceLanguage,
+  targetLanguage,
+  sourceTerm: sourceTerm.trim(),
+  targetTerm: doNotTranslate ? sourceTerm.trim() : targetTerm.trim(),
+  doNotTranslate: doNotTranslate || undefined,
+});
+
+// Merges imported entries, replacing any with the same pair and source term
+export const mergeEntries = (existing: GlossaryEntry[], incoming: GlossaryEntry[]) => {
+  const keyOf = (e: GlossaryEntry) => `${e.sourceLanguage}|${e.targetLanguage}|${e.sourceTerm.toLowerCase()}`;
+  const incomingKeys = new Set(incoming.map(keyOf));
+  return [...existing.filter(e => !incomingKeys.has(keyOf(e))), ...incoming];
+};
+
+// With auto-detect the source is unknown, so every entry for the target applies
+export const entriesForPair = (entries: GlossaryEntry[], sourceLang: string, targetLang: string) =>
+  entries.filter(e =>
+    e.targetLanguage === targetLang && (sourceLang === 'auto' || e.sourceLanguage === sourceLang)
+  );
+
+// Prompt section listing the terms the model has to respect
+export const glossaryInstruction = (entries: GlossaryEntry[]) => {
+  const mapped = entries.filter(e => !e.doNotTranslate);
+  const frozen = entries.filter(e => e.doNotTranslate);
+  const sections: string[] = [];
+  if (mapped.length) {
+    sections.push(`Use this glossary. Whenever a source term appears, translate it exactly as given:
+${mapped.map(e => `- "${e.sourceTerm}" => "${e.targetTerm}"`).join('\n')}`);
+  }
+  if (frozen.length) {
+    sections.push(`Never translate these terms; copy them exactly as written:
+${frozen.map(e => `- "${e.sourceTerm}"`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-term, case-insensitive match that works for non-Latin scripts too
+const termPattern = (term: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu');
+
+const containsTerm = (text: string, term: string) => termPattern(term).test(text);
+
+// Replaces every glossary source term in `text` with its target term
+export const applyGlossary = (text: string, entries: GlossaryEntry[]) =>
+  entries.reduce((result, e) => result.replace(termPattern(e.sourceTerm), e.targetTerm), text);
+
+export const findViolations = (
+  sourceText: string,
+  translatedText: string,
+  entries: GlossaryEntry[]
+): GlossaryViolation[] =>
+  entries
+    .filter(e => e.sourceTerm && containsTerm(sourceText, e.sourceTerm) && !containsTerm(translatedText, e.targetTerm))
+    .map(entry => ({
+      entry,
+      ranges: [...translatedText.matchAll(termPattern(entry.sourceTerm))].map(match => ({
+        start: match.index!,
+        end: match.index! + match[0].length,
+      })),
+    }));
+
+const CSV_HEADER = ['source_language', 'target_language', 'source_term', 'target_term', 'do_not_translate'];
+
+export const exportCsv = (entries: GlossaryEntry[]) =>
+  toCsv([
+    CSV_HEADER,
+    ...entries.map(e => [e.sourceLanguage, e.targetLanguage, e.sourceTerm, e.targetTerm, e.doNotTranslate ? 'true' : 'false']),
+  ]);
+
+export const importCsv = (text: string): GlossaryEntry[] => {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.includes('source_term');
+  const column = (name: string, fallback: number) => (hasHeader ? header.indexOf(name) : fallback);
+  const idx = CSV_HEADER.map((name, i) => column(name, i));
+
+  return rows.slice(hasHeader ? 1 : 0).flatMap(row => {
+    const cell = (i: number) => (idx[i] >= 0 ? (row[idx[i]] ?? '').trim() : '');
+    const [sourceLanguage, targetLanguage, sourceTerm, targetTerm, dnt] = CSV_HEADER.map((_, i) => cell(i));
+    const doNotTranslate = ['true', 'yes', '1', 'x'].includes(dnt.toLowerCase());
+    if (!sourceLanguage || !targetLanguage || !sourceTerm || (!targetTerm && !doNotTranslate)) return [];
+    return [createEntry(sourceLanguage, targetLanguage, sourceTerm, targetTerm, doNotTranslate)];
+  });
+};
+
+const DNT_NOTE = 'do-not-translate';
+
+// TBX-Basic (ISO 30042:2019); one concept entry per glossary row
+export const exportTbx = (entries: GlossaryEntry[]) => {
+  const concepts = entries.map((e, i) => {
+    const note = e.doNotTranslate ? `<termNote type="transferComment">${DNT_NOTE}</termNote>` : '';
+    return `    <conceptEntry id="c${i + 1}">
+      <langSec xml:lang="${escapeXml(e.sourceLanguage)}"><termSec><term>${escapeXml(e.sourceTerm)}</term>${note}</termSec></langSec>
+      <langSec xml:lang="${escapeXml(e.targetLanguage)}"><termSec><term>${escapeXml(e.targetTerm)}</term></termSec></langSec>
+    </conceptEntry>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tbx type="TBX-Basic" style="dca" xml:lang="en" xmlns="urn:iso:std:iso:30042:ed-2">
+  <tbxHeader><fileDesc><sourceDesc><p>LingoSync glossary export</p></sourceDesc></fileDesc></tbxHeader>
+  <text>
+  <body>
+${concepts.join('\n')}
+  </body>
+  </text>
+</tbx>
+`;
+};
+
+// Reads TBX v3 (conceptEntry/langSec) and older v2 (termEntry/langSet) files.
+// The first language in each concept is treated as the source.
+export const importTbx = (xml: string): GlossaryEntry[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The TBX file is not well-formed XML');
+  }
+  const byName = (parent: Element | Document, ...names: string[]) =>
+    names.flatMap(name => Array.from(parent.getElementsByTagName(name)));
+  const langOf = (el: Element) => el.getAttribute('xml:lang') || el.getAttribute('lang') || '';
+
+  return byName(doc, 'conceptEntry', 'termEntry').flatMap(concept => {
+    const sections = byName(concept, 'langSec', 'langSet');
+    if (sections.length < 2) return [];
+    const [source, ...targets] = sections;
+    const sourceTerm = byName(source, 'term')[0]?.textContent?.trim() ?? '';
+    const doNotTranslate = byName(source, 'termNote').some(n => n.textContent?.trim() === DNT_NOTE);
+    if (!sourceTerm) return [];
+    return targets.flatMap(target => {
+      const targetTerm = byName(target, 'term')[0]?.textContent?.trim() ?? '';
+      if (!targetTerm && !doNotTranslate) return [];
+      return [createEntry(langOf(source), langOf(target), sourceTerm, targetTerm, doNotTranslate)];
+    });
+  });
+};
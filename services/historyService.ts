@@ -0,0 +1,208 @@
+import { HistoryItem } from "../types";
+import { HISTORY_STORE, openDatabase, requestToPromise, transactionDone } from "./database";
+
+const LEGACY_STORAGE_KEY = 'translation_history';
+const SYNC_CHANNEL = 'lingosync-history';
+
+// Unpinned entries beyond this are dropped; pinned ones are always kept
+export const HISTORY_LIMIT = 5000;
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+export const isHistoryItem = (value: unknown): value is HistoryItem => {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Record<string, unknown>;
+  return (
+    typeof item.id === 'string' &&
+    typeof item.timestamp === 'number' && Number.isFinite(item.timestamp) &&
+    typeof item.sourceText === 'string' &&
+    typeof item.translatedText === 'string' &&
+    typeof item.sourceLanguage === 'string' &&
+    typeof item.targetLanguage === 'string' &&
+    isOptionalString(item.detectedLanguage) &&
+    isOptionalString(item.machineTranslation) &&
+    (item.pinned === undefined || typeof item.pinned === 'boolean') &&
+    (item.approved === undefined || typeof item.approved === 'boolean')
+  );
+};
+
+// Copies forward entries from the old single-blob localStorage format, which
+// predates sourceText and was never validated on write.
+const migrateLegacyHistory = async (db: IDBDatabase) => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (saved === null) return;
+
+  let parsed: unknown = [];
+  try {
+    parsed = JSON.parse(saved);
+  } catch (e) {
+    console.error("Discarding unreadable legacy history", e);
+  }
+
+  const items = (Array.isArray(parsed) ? parsed : [])
+    .map(entry => (entry && typeof entry === 'object' ? { sourceText: '', ...entry } : entry))
+    .filter(isHistoryItem);
+
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  items.forEach(item => store.put(item));
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+let legacyMigration: Promise<void> | null = null;
+
+// The legacy import runs once per page, before the first history access
+const openHistory = async (): Promise<IDBDatabase> => {
+  const db = await openDatabase();
+  if (!legacyMigration) {
+    legacyMigration = migrateLegacyHistory(db);
+    legacyMigration.catch(() => {
+      legacyMigration = null;
+    });
+  }
+  await legacyMigration;
+  return db;
+};
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SYNC_CHANNEL) : null;
+
+const notifyChanged = () => channel?.postMessage('changed');
+
+// Calls `listener` whenever another tab writes to history
+export const subscribeToHistory = (listener: () => void) => {
+  if (!channel) return () => {};
+  const handler = () => listener();
+  channel.addEventListener('message', handler);
+  return () => channel.removeEventListener('message', handler);
+};
+
+// Newest first
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  const db = await openHistory();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(HISTORY_STORE).index('timestamp').getAll());
+  const items = records.filter(isHistoryItem);
+  if (items.length !== records.length) {
+    console.error(`Ignored ${records.length - items.length} invalid history records`);
+  }
+  return items.reverse();
+};
+
+const pruneUnpinned = (store: IDBObjectStore) => {
+  let unpinned = 0;
+  const cursorRequest = store.index('timestamp').openCursor(null, 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const item = cursor.value as HistoryItem;
+    if (!item.pinned && ++unpinned > HISTORY_LIMIT) cursor.delete();
+    cursor.continue();
+  };
+};
+
+export const addHistoryItem = async (item: HistoryItem) => {
+  if (!isHistoryItem(item)) throw new Error("Refusing to store an invalid history item");
+
+  const db = await openHistory();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+
+  const cursor = await requestToPromise(store.index('timestamp').openCursor(null, 'prev'));
+  const latest = cursor?.value as HistoryItem | undefined;
+  // Avoid duplicates at the top
+  const isDuplicate =
+    latest &&
+    latest.sourceText === item.sourceText &&
+    latest.translatedText === item.translatedText &&
+    latest.targetLanguage === item.targetLanguage;
+
+  if (!isDuplicate) {
+    store.put(item);
+    pruneUnpinned(store);
+  }
+  await transactionDone(tx);
+  if (!isDuplicate) notifyChanged();
+};
+
+// Stores a post-edited translation in place of the newest entry it was edited
+// from (the raw model output or an earlier approval of it), so history
+// doesn't show several versions
+export const saveApprovedTranslation = async (item: HistoryItem) => {
+  const approved: HistoryItem = { ...item, approved: true };
+  if (!isHistoryItem(approved)) throw new Error("Refusing to store an invalid history item");
+
+  const db = await openHistory();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  const cursorRequest = store.index('timestamp').openCursor(null, 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) {
+      // The original was deleted or pruned meanwhile
+      store.put(approved);
+      pruneUnpinned(store);
+      return;
+    }
+    const existing = cursor.value as HistoryItem;
+    const isOriginal =
+      existing.sourceText === item.sourceText &&
+      existing.targetLanguage === item.targetLanguage &&
+      (existing.approved ? existing.machineTranslation : existing.translatedText) === item.machineTranslation;
+    if (!isOriginal) {
+      cursor.continue();
+      return;
+    }
+    cursor.delete();
+    // Approving shouldn't lose a favourite
+    store.put({ ...approved, pinned: existing.pinned });
+  };
+  await transactionDone(tx);
+  notifyChanged();
+};
+
+export const togglePinned = async (id: string) => {
+  const db = await openHistory();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  const item = await requestToPromise(store.get(id));
+  if (isHistoryItem(item)) {
+    store.put({ ...item, pinned: !item.pinned });
+    // Unpinning can push the unpinned count over the limit
+    pruneUnpinned(store);
+  }
+  await transactionDone(tx);
+  notifyChanged();
+};
+
+export const removeHistoryItem = async (id: string) => {
+  const db = await openHistory();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).delete(id);
+  await transactionDone(tx);
+  notifyChanged();
+};
+
+// Clearing keeps favourites; they have to be unpinned to go away
+export const clearUnpinned = async () => {
+  const db = await openHistory();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const cursorRequest = tx.objectStore(HISTORY_STORE).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if (!(cursor.value as HistoryItem).pinned) cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+  notifyChanged();
+};
+
+export const searchHistory = (items: HistoryItem[], query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return items;
+  return items.filter(item =>
+    item.sourceText.toLowerCase().includes(needle) ||
+    item.translatedText.toLowerCase().includes(needle)
+  );
+};
@@ -0,0 +1,18 @@
+// Matches the proxy's default body limit
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+// Returns why the file can't be used, or null when it can
+export const validateImage = (file: Blob) => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) return 'Unsupported image type. Use PNG, JPEG, WebP or HEIC.';
+  if (file.size > MAX_IMAGE_BYTES) return `Image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`;
+  return null;
+};
+
+// The first image in a paste or drop, e.g. a screenshot copied to the clipboard
+export const imageFromTransfer = (data: DataTransfer | null) =>
+  Array.from(data?.files ?? []).find(file => file.type.startsWith('image/')) ?? null;
+
+// Blocks in reading order, one per line, for copying
+export const blocksToText = (texts: string[]) => texts.map(t => t.trim()).filter(Boolean).join('\n');
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { MAX_INPUT_CHARS, estimateTokens, outputWarning, sanitizeInput, validateInput } from "./inputService";
+
+describe('sanitizeInput', () => {
+  it('normalizes line breaks and drops invisible controls', () => {
+    expect(sanitizeInput('a\r\nb\rc')).toBe('a\nb\nc');
+    expect(sanitizeInput('pay\u202Eyal\u0007')).toBe('payyal');
+  });
+
+  it('keeps tabs and line breaks', () => {
+    expect(sanitizeInput('a\tb\nc')).toBe('a\tb\nc');
+  });
+
+  it('composes characters to NFC', () => {
+    expect(sanitizeInput('e\u0301')).toBe('\u00E9');
+  });
+});
+
+describe('validateInput', () => {
+  it('accepts ordinary text', () => {
+    expect(validateInput('Hello')).toBeNull();
+  });
+
+  it('rejects text that is empty once sanitized', () => {
+    expect(validateInput(' \u202A\n')).toMatch(/no text/);
+  });
+
+  it('rejects text over the limit', () => {
+    expect(validateInput('a'.repeat(MAX_INPUT_CHARS + 1))).toMatch(/document mode/);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token in spaced scripts', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+  });
+
+  it('counts a token per character in dense scripts', () => {
+    expect(estimateTokens('你好世界')).toBe(4);
+  });
+});
+
+describe('outputWarning', () => {
+  const source = 'The quick brown fox jumps over the lazy dog near the river bank today.';
+
+  it('accepts a translation of similar size', () => {
+    expect(outputWarning(source, 'Le rapide renard brun saute par-dessus le chien paresseux près de la rivière.')).toBeNull();
+  });
+
+  it('flags output much longer than the source', () => {
+    expect(outputWarning('Hello', 'Bonjour. '.repeat(20))).toMatch(/longer/);
+  });
+
+  it('flags output much shorter than the source', () => {
+    expect(outputWarning(source.repeat(4), 'Renard.')).toMatch(/shorter/);
+  });
+
+  it('flags output with extra lines', () => {
+    expect(outputWarning('One line of text here', 'Une ligne\n\nNote:\nA\nB')).toMatch(/more lines/);
+  });
+
+  it('ignores empty text', () => {
+    expect(outputWarning('', 'anything')).toBeNull();
+  });
+});
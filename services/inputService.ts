@@ -0,0 +1,53 @@
+// Checks on text going to the model and on what comes back. The prompts keep
+// user text apart from instructions; these catch what that can't.
+
+// Longest input the text box accepts; longer documents belong in document mode
+export const MAX_INPUT_CHARS = 50_000;
+
+// C0/C1 controls other than tab and line breaks, and the bidi embedding,
+// override and isolate controls used to make text display differently from
+// how it is read
+const INVISIBLE_CONTROLS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\u202A-\u202E\u2066-\u2069]/g;
+
+export const sanitizeInput = (text: string) =>
+  text.normalize('NFC').replace(/\r\n?/g, '\n').replace(INVISIBLE_CONTROLS, '');
+
+// Returns why the text can't be sent, or null when it can
+export const validateInput = (text: string) => {
+  if (text.length > MAX_INPUT_CHARS) {
+    return `Text is ${text.length.toLocaleString()} characters; the limit is ${MAX_INPUT_CHARS.toLocaleString()}. Use document mode for longer files.`;
+  }
+  if (!sanitizeInput(text).trim()) return 'There is no text to translate.';
+  return null;
+};
+
+// Scripts written without spaces cost about a token per character; others
+// average about four characters per token. Good enough for sizing chunks.
+const DENSE_SCRIPT = /[\u0E00-\u0E7F\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]/g;
+
+export const estimateTokens = (text: string) => {
+  const dense = text.match(DENSE_SCRIPT)?.length ?? 0;
+  return dense + Math.ceil((text.length - dense) / 4);
+};
+
+const nonEmptyLines = (text: string) => text.split('\n').filter(line => line.trim()).length;
+
+// Flags output whose size or layout is far from the source's, which usually
+// means the model added remarks or left text out. Compares token estimates
+// and line counts, so it works the same for every language pair. Returns a
+// warning to show, or null.
+export const outputWarning = (source: string, output: string) => {
+  const sourceTokens = estimateTokens(source.trim());
+  const outputTokens = estimateTokens(output.trim());
+  if (!sourceTokens || !outputTokens) return null;
+  if (outputTokens > sourceTokens * 3 + 20) {
+    return 'The translation is much longer than the source; the model may have added notes or explanations.';
+  }
+  if (sourceTokens >= 20 && outputTokens * 3 < sourceTokens) {
+    return 'The translation is much shorter than the source; parts of the text may be missing.';
+  }
+  if (nonEmptyLines(output) > nonEmptyLines(source) + 2) {
+    return 'The translation has more lines than the source; the model may have added notes or explanations.';
+  }
+  return null;
+};
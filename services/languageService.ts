@@ -0,0 +1,147 @@
+import { AUTO_DETECT, BUILT_IN_LANGUAGES, LANGUAGE_ALIASES } from "../constants";
+import { Language, TextDirection } from "../types";
+
+// Language registry. Deployments add languages, or override built-in ones,
+// by setting CUSTOM_LANGUAGES to a JSON array of Language objects, e.g.
+// [{"code":"sw","name":"Swahili","nativeName":"Kiswahili"}].
+
+const TAG_PATTERN = /^[a-z]{2,8}(-[a-z0-9]{1,8})*$/i;
+
+const isLanguage = (value: unknown): value is Language => {
+  const lang = value as Partial<Language> | null;
+  return (
+    !!lang &&
+    typeof lang.code === 'string' &&
+    TAG_PATTERN.test(lang.code) &&
+    lang.code !== AUTO_DETECT.code &&
+    typeof lang.name === 'string' &&
+    !!lang.name.trim() &&
+    (lang.nativeName === undefined || typeof lang.nativeName === 'string') &&
+    (lang.direction === undefined || lang.direction === 'ltr' || lang.direction === 'rtl') &&
+    (lang.tts === undefined || typeof lang.tts === 'boolean') &&
+    (lang.variantOf === undefined || typeof lang.variantOf === 'string')
+  );
+};
+
+export const parseCustomLanguages = (json: string | undefined): Language[] => {
+  if (!json?.trim()) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    console.warn("CUSTOM_LANGUAGES is not valid JSON; ignoring it");
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    console.warn("CUSTOM_LANGUAGES must be a JSON array; ignoring it");
+    return [];
+  }
+  return parsed.filter(entry => {
+    if (isLanguage(entry)) return true;
+    console.warn("Skipping invalid custom language", entry);
+    return false;
+  });
+};
+
+// Built lazily so the CLI and server can load .env.local first
+let registry: Language[] | null = null;
+
+export const getLanguages = () => {
+  if (!registry) {
+    const custom = parseCustomLanguages(process.env.CUSTOM_LANGUAGES);
+    const overridden = new Set(custom.map(l => l.code.toLowerCase()));
+    registry = [...BUILT_IN_LANGUAGES.filter(l => !overridden.has(l.code.toLowerCase())), ...custom];
+  }
+  return registry;
+};
+
+export const getSourceLanguages = () => [AUTO_DETECT, ...getLanguages()];
+
+// Exact tag first, then known aliases, then the base language, so "pt-AO"
+// from a detector still finds Portuguese
+export const findLanguage = (code?: string): Language | undefined => {
+  if (!code || code === AUTO_DETECT.code) return undefined;
+  const languages = getLanguages();
+  const lower = code.toLowerCase();
+  const exact = languages.find(l => l.code.toLowerCase() === lower);
+  if (exact) return exact;
+  const alias = Object.entries(LANGUAGE_ALIASES).find(([from]) => from.toLowerCase() === lower)?.[1];
+  if (alias) return findLanguage(alias);
+  const base = lower.split('-')[0];
+  return base !== lower ? findLanguage(base) : undefined;
+};
+
+export const isKnownLanguage = (code: string) => !!findLanguage(code);
+
+export const languageName = (code: string) =>
+  code === AUTO_DETECT.code ? AUTO_DETECT.name : findLanguage(code)?.name ?? code;
+
+export const textDirection = (code?: string): TextDirection => findLanguage(code)?.direction ?? 'ltr';
+
+// Languages outside the registry are tried; the speech model decides
+export const canSpeak = (code: string) => findLanguage(code)?.tts !== false;
+
+// How a language is named to the model: "Portuguese (Brazil) [pt-BR]"
+export const promptLanguage = (code: string) => {
+  const language = findLanguage(code);
+  return language ? `${language.name} [${language.code}]` : code;
+};
+
+// --- Recent and favourite languages --------------------------------------
+
+const PREFS_KEY = 'lingosync_language_prefs';
+const MAX_RECENT = 5;
+
+export interface LanguagePreferences {
+  // Most recent first
+  recent: string[];
+  favourites: string[];
+}
+
+const loadPreferences = (): LanguagePreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFS_KEY) || '{}');
+    return {
+      recent: Array.isArray(stored.recent) ? stored.recent.filter((c: unknown) => typeof c === 'string') : [],
+      favourites: Array.isArray(stored.favourites) ? stored.favourites.filter((c: unknown) => typeof c === 'string') : [],
+    };
+  } catch {
+    return { recent: [], favourites: [] };
+  }
+};
+
+let preferences: LanguagePreferences | null = null;
+const preferenceListeners = new Set<() => void>();
+
+const updatePreferences = (next: LanguagePreferences) => {
+  preferences = next;
+  localStorage.setItem(PREFS_KEY, JSON.stringify(next));
+  preferenceListeners.forEach(listener => listener());
+};
+
+export const getLanguagePreferences = () => {
+  if (!preferences) preferences = loadPreferences();
+  return preferences;
+};
+
+export const subscribeLanguagePreferences = (listener: () => void) => {
+  preferenceListeners.add(listener);
+  return () => {
+    preferenceListeners.delete(listener);
+  };
+};
+
+export const recordRecentLanguage = (code: string) => {
+  if (code === AUTO_DETECT.code) return;
+  const current = getLanguagePreferences();
+  if (current.recent[0] === code) return;
+  updatePreferences({ ...current, recent: [code, ...current.recent.filter(c => c !== code)].slice(0, MAX_RECENT) });
+};
+
+export const toggleFavouriteLanguage = (code: string) => {
+  const current = getLanguagePreferences();
+  const favourites = current.favourites.includes(code)
+    ? current.favourites.filter(c => c !== code)
+    : [...current.favourites, code];
+  updatePreferences({ ...current, favourites });
+};
@@ -0,0 +1,30 @@
+const SETTINGS_KEY = 'lingosync_live_translation';
+
+// 'live' translates after each pause in typing; 'manual' waits for Ctrl+Enter
+export type TranslationTrigger = 'live' | 'manual';
+
+export interface LiveTranslationSettings {
+  trigger: TranslationTrigger;
+  // Pause in typing before a live translation starts
+  debounceMs: number;
+}
+
+export const DEBOUNCE_OPTIONS = [300, 500, 800, 1200, 2000];
+
+export const DEFAULT_LIVE_SETTINGS: LiveTranslationSettings = { trigger: 'live', debounceMs: 800 };
+
+export const loadLiveSettings = (): LiveTranslationSettings => {
+  try {
+    const stored = { ...DEFAULT_LIVE_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+    return {
+      trigger: stored.trigger === 'manual' ? 'manual' : 'live',
+      debounceMs: DEBOUNCE_OPTIONS.includes(stored.debounceMs) ? stored.debounceMs : DEFAULT_LIVE_SETTINGS.debounceMs,
+    };
+  } catch {
+    return DEFAULT_LIVE_SETTINGS;
+  }
+};
+
+export const saveLiveSettings = (settings: LiveTranslationSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
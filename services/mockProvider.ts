@@ -0,0 +1,205 @@
+import {
+  DetectionResult,
+  QualityAssessment,
+  QualityIssue,
+  SpeechAudio,
+  TextBlock,
+  TranslateOptions,
+  TranslationAlternative,
+  TranslationProvider,
+  TranslationResult,
+  UsageOptions,
+} from "../types";
+import { applyGlossary } from "./glossaryService";
+import { estimateTokens } from "./inputService";
+
+// Deterministic offline backend for development and automated tests.
+// Known words are looked up in a tiny dictionary; everything else is echoed
+// back unchanged, prefixed with the target language code.
+
+const DICTIONARY: Record<string, Record<string, string>> = {
+  es: { hello: 'hola', world: 'mundo', goodbye: 'adiós', thank: 'gracias', yes: 'sí', no: 'no', cat: 'gato', dog: 'perro' },
+  fr: { hello: 'bonjour', world: 'monde', goodbye: 'au revoir', thank: 'merci', yes: 'oui', no: 'non', cat: 'chat', dog: 'chien' },
+  de: { hello: 'hallo', world: 'welt', goodbye: 'auf wiedersehen', thank: 'danke', yes: 'ja', no: 'nein', cat: 'katze', dog: 'hund' },
+  it: { hello: 'ciao', world: 'mondo', goodbye: 'arrivederci', thank: 'grazie', yes: 'sì', no: 'no', cat: 'gatto', dog: 'cane' },
+};
+
+// Reverse lookup so source words from any dictionary language detect correctly
+const WORD_LANGUAGES: Record<string, string> = Object.entries(DICTIONARY).reduce(
+  (acc, [lang, words]) => {
+    Object.values(words).forEach(word => {
+      acc[word] = lang;
+    });
+    Object.keys(words).forEach(word => {
+      acc[word] = 'en';
+    });
+    return acc;
+  },
+  {} as Record<string, string>
+);
+
+const SCRIPT_PATTERNS: [RegExp, string][] = [
+  [/[\u0600-\u06FF]/, 'ar'],
+  [/[\u0400-\u04FF]/, 'ru'],
+  [/[\u3040-\u30FF]/, 'ja'],
+  [/[\uAC00-\uD7AF]/, 'ko'],
+  [/[\u4E00-\u9FFF]/, 'zh'],
+  [/[\u0900-\u097F]/, 'hi'],
+  [/[\u0E00-\u0E7F]/, 'th'],
+];
+
+const matchCase = (source: string, target: string) =>
+  source[0] && source[0] === source[0].toUpperCase() && source[0] !== source[0].toLowerCase()
+    ? target[0].toUpperCase() + target.slice(1)
+    : target;
+
+const translateWords = (text: string, targetLang: string) => {
+  // Regional variants share their base language's words
+  const dictionary = DICTIONARY[targetLang] ?? DICTIONARY[targetLang.split('-')[0]];
+  if (!dictionary) return `[${targetLang}] ${text}`;
+  // Splitting on a captured group keeps whitespace and punctuation in place
+  return text
+    .split(/(\p{L}+)/u)
+    .map(part => {
+      const hit = dictionary[part.toLowerCase()];
+      return hit ? matchCase(part, hit) : part;
+    })
+    .join('');
+};
+
+// Estimated the way a real model would count, so usage tracking can be tried offline
+const reportUsage = (options: UsageOptions, input: string, output: string) => {
+  options.onUsage?.({ inputTokens: estimateTokens(input), outputTokens: estimateTokens(output) });
+};
+
+export const mockDetect = async (text: string, options: UsageOptions = {}): Promise<DetectionResult> => {
+  reportUsage(options, text, '');
+  for (const [pattern, language] of SCRIPT_PATTERNS) {
+    if (pattern.test(text)) return { language, confidence: 0.9 };
+  }
+
+  const votes: Record<string, number> = {};
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  words.forEach(word => {
+    const lang = WORD_LANGUAGES[word];
+    if (lang) votes[lang] = (votes[lang] || 0) + 1;
+  });
+
+  const [best] = Object.entries(votes).sort((a, b) => b[1] - a[1]);
+  if (!best) return { language: 'en', confidence: 0.3 };
+  return { language: best[0], confidence: Math.min(1, 0.5 + best[1] / Math.max(words.length, 1) / 2) };
+};
+
+export const mockTranslate = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslateOptions = {}
+): Promise<TranslationResult> => {
+  const detectedLanguage = sourceLang === 'auto' ? (await mockDetect(text)).language : undefined;
+  // Glossary terms are substituted before the dictionary pass
+  const translatedText = translateWords(applyGlossary(text, options.glossary ?? []), targetLang);
+  reportUsage(options, text, translatedText);
+  return {
+    translatedText,
+    detectedLanguage,
+    sourceLanguage: sourceLang,
+    targetLanguage: targetLang,
+  };
+};
+
+export const mockTranslateStream = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  onChunk: (chunk: string) => void,
+  options: TranslateOptions = {}
+) => {
+  const { signal, onUsage } = options;
+  const { translatedText } = await mockTranslate(text, sourceLang, targetLang, { glossary: options.glossary });
+  // Emit word-sized chunks to exercise the same code paths as a real stream
+  for (const chunk of translatedText.match(/\S+\s*|\s+/g) || []) {
+    await Promise.resolve();
+    signal?.throwIfAborted();
+    onChunk(chunk);
+  }
+  reportUsage({ onUsage }, text, translatedText);
+};
+
+// Two fixed candidates: the normal output and a shouted variant
+export const mockAlternatives = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslateOptions = {}
+): Promise<TranslationAlternative[]> => {
+  const { translatedText } = await mockTranslate(text, sourceLang, targetLang, { glossary: options.glossary });
+  reportUsage(options, text, translatedText.repeat(2));
+  return [
+    { translatedText, note: 'Closest to the original wording.' },
+    { translatedText: translatedText.toUpperCase(), note: 'Same words, more emphatic.' },
+  ];
+};
+
+// Flags longer words that come back unchanged, which is what the dictionary
+// does with anything it doesn't know
+export const mockAssessQuality = async (
+  sourceText: string,
+  translatedText: string,
+  _sourceLang: string,
+  _targetLang: string,
+  options: TranslateOptions = {}
+): Promise<QualityAssessment> => {
+  reportUsage(options, sourceText + translatedText, '');
+  const sourceWords = new Set(sourceText.match(/\p{L}{4,}/gu) || []);
+  const untranslated = [...new Set(translatedText.match(/\p{L}{4,}/gu) || [])].filter(word => sourceWords.has(word));
+  const issues: QualityIssue[] = untranslated.map(word => ({
+    type: 'untranslated',
+    severity: 'minor',
+    span: word,
+    explanation: `"${word}" was left as in the source.`,
+  }));
+  return {
+    score: Math.max(0, 100 - issues.length * 15),
+    summary: issues.length ? 'Some words were not translated.' : 'No problems found.',
+    issues,
+  };
+};
+
+export const mockSpeak = async (
+  text: string,
+  _languageName: string,
+  _voice?: string,
+  options: UsageOptions = {}
+): Promise<SpeechAudio> => {
+  reportUsage(options, text, '');
+  const sampleRate = 24000;
+  // 50 ms of silence per character, enough for playback plumbing to run
+  const frames = Math.max(1, text.length) * (sampleRate / 20);
+  return { data: new Uint8Array(frames * 2), sampleRate, numChannels: 1 };
+};
+
+// Audio can't be echoed back, so every non-empty recording says the same thing
+export const mockTranscribe = async (audio: Blob, _languageName?: string) =>
+  audio.size > 0 ? 'Hello world' : '';
+
+// Same idea for images: a sign with a heading and one line below it
+export const mockExtractText = async (image: Blob): Promise<TextBlock[]> =>
+  image.size > 0
+    ? [
+        { text: 'Hello world', box: { x: 0.1, y: 0.1, width: 0.8, height: 0.2 } },
+        { text: 'Thank you, goodbye', box: { x: 0.2, y: 0.6, width: 0.6, height: 0.1 } },
+      ]
+    : [];
+
+export const mockProvider: TranslationProvider = {
+  id: 'mock',
+  translateStream: mockTranslateStream,
+  translate: mockTranslate,
+  alternatives: mockAlternatives,
+  assessQuality: mockAssessQuality,
+  detect: mockDetect,
+  speak: mockSpeak,
+  transcribe: mockTranscribe,
+  extractText: mockExtractText,
+};
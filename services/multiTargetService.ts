@@ -0,0 +1,99 @@
+import { GlossaryEntry, TranslationStyle } from "../types";
+import { translateTextStream } from "./translationService";
+import { entriesForPair } from "./glossaryService";
+import { toCsv } from "./fileService";
+
+const CONCURRENCY_KEY = 'lingosync_concurrency';
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 10;
+
+export type TargetStatus = 'queued' | 'streaming' | 'done' | 'error' | 'cancelled';
+
+export interface TargetResult {
+  languageCode: string;
+  text: string;
+  status: TargetStatus;
+  error?: string;
+}
+
+export interface FanOutOptions {
+  signal?: AbortSignal;
+  // Full glossary; each target only sees the entries for its own pair
+  glossary?: GlossaryEntry[];
+  style?: TranslationStyle;
+  concurrency?: number;
+  onUpdate: (result: TargetResult) => void;
+}
+
+export const getConcurrency = () => {
+  const stored = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return stored >= 1 && stored <= MAX_CONCURRENCY ? stored : DEFAULT_CONCURRENCY;
+};
+
+export const setConcurrency = (limit: number) => {
+  localStorage.setItem(CONCURRENCY_KEY, String(limit));
+};
+
+// Runs `worker` over every item with at most `limit` in flight at a time
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  const queue = [...items];
+  const lane = async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      await worker(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, queue.length)) }, lane));
+};
+
+// Translates one text into every target, reporting each language's progress
+// separately. A failing language never stops the others.
+export const translateToTargets = async (
+  text: string,
+  sourceLang: string,
+  targets: string[],
+  { signal, glossary = [], style, concurrency = DEFAULT_CONCURRENCY, onUpdate }: FanOutOptions
+) => {
+  targets.forEach(languageCode => onUpdate({ languageCode, text: '', status: 'queued' }));
+
+  await runWithConcurrency(targets, concurrency, async (languageCode) => {
+    if (signal?.aborted) {
+      onUpdate({ languageCode, text: '', status: 'cancelled' });
+      return;
+    }
+    let translated = '';
+    onUpdate({ languageCode, text: '', status: 'streaming' });
+    try {
+      await translateTextStream(text, sourceLang, languageCode, (chunk) => {
+        translated += chunk;
+        onUpdate({ languageCode, text: translated, status: 'streaming' });
+      }, {
+        signal,
+        glossary: entriesForPair(glossary, sourceLang, languageCode),
+        style,
+      });
+      onUpdate({ languageCode, text: translated, status: 'done' });
+    } catch (err: any) {
+      onUpdate(err.name === 'AbortError' || signal?.aborted
+        ? { languageCode, text: translated, status: 'cancelled' }
+        : { languageCode, text: translated, status: 'error', error: err.message || 'Translation failed.' });
+    }
+  });
+};
+
+const completed = (results: TargetResult[]) => results.filter(r => r.status === 'done');
+
+// { "source": { "language": "en", "text": ... }, "translations": { "es": ..., "fr": ... } }
+export const exportResultsJson = (sourceLang: string, sourceText: string, results: TargetResult[]) =>
+  JSON.stringify({
+    source: { language: sourceLang, text: sourceText },
+    translations: Object.fromEntries(completed(results).map(r => [r.languageCode, r.text])),
+  }, null, 2) + '\n';
+
+// One column per language code, source first, as localisation sheets expect
+export const exportResultsCsv = (sourceLang: string, sourceText: string, results: TargetResult[]) => {
+  const done = completed(results);
+  return toCsv([
+    [sourceLang === 'auto' ? 'source' : sourceLang, ...done.map(r => r.languageCode)],
+    [sourceText, ...done.map(r => r.text)],
+  ]);
+};
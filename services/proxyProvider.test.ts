@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { proxyDetect, proxyTranslateStream } from "./proxyProvider";
+import { backoffDelay } from "./requestService";
+
+const respond = (body: BodyInit, init: ResponseInit = {}) => {
+  const fetch = vi.fn(async () => new Response(body, init));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('proxyProvider', () => {
+  it('turns an error body into a TranslationError with the server category', async () => {
+    respond(JSON.stringify({ error: { category: 'auth', message: 'Bad key' } }), { status: 502 });
+    await expect(proxyDetect('Hello')).rejects.toMatchObject({ category: 'auth', message: 'Bad key', status: 502 });
+  });
+
+  it('falls back to the status when the body is not one of ours', async () => {
+    respond('<html>Bad gateway</html>', { status: 503 });
+    await expect(proxyDetect('Hello')).rejects.toMatchObject({ category: 'server', status: 503 });
+  });
+
+  it('keeps Retry-After so the retry waits as long as the server asked', async () => {
+    respond(JSON.stringify({ error: { category: 'rate-limit', message: 'Slow down' } }), {
+      status: 429,
+      headers: { 'Retry-After': '7' },
+    });
+    const error = await proxyDetect('Hello').catch(err => err);
+    expect(error).toMatchObject({ category: 'rate-limit', retryAfterMs: 7000 });
+    expect(backoffDelay(0, error)).toBe(7000);
+  });
+
+  it('reads chunks, usage and errors from the event stream', async () => {
+    respond(
+      'event: chunk\ndata: {"text":"Hola"}\n\nevent: usage\ndata: {"inputTokens":2,"outputTokens":"x"}\n\n' +
+      'event: error\ndata: {"category":"nonsense"}\n\n',
+      { headers: { 'Content-Type': 'text/event-stream' } }
+    );
+    const chunks: string[] = [];
+    const onUsage = vi.fn();
+    const error = await proxyTranslateStream('Hello', 'en', 'es', chunk => chunks.push(chunk), { onUsage }).catch(err => err);
+    expect(chunks).toEqual(['Hola']);
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 2, outputTokens: 0 });
+    expect(error).toMatchObject({ category: 'unknown' });
+  });
+
+  it('fails with a network error when the stream ends without done', async () => {
+    respond('event: chunk\ndata: {"text":"Hola"}\n\n');
+    await expect(proxyTranslateStream('Hello', 'en', 'es', () => {})).rejects.toMatchObject({ category: 'network' });
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  DetectionResult,
+  QualityAssessment,
+  RequestOptions,
+  SpeechAudio,
+  TextBlock,
+  TranslateOptions,
+  TranslationAlternative,
+  TranslationProvider,
+  TranslationResult,
+  UsageOptions,
+} from "../types";
+import { TranslationError, classifyError, isErrorCategory } from "./requestService";
+import { field, numberField, stringField } from "./responseService";
+
+// Talks to the translation proxy in server/, which holds the API key.
+// PROXY_URL defaults to the /api path the Vite dev server forwards.
+const PROXY_URL = (process.env.PROXY_URL || '/api').replace(/\/$/, '');
+
+// Retry-After in seconds; the proxy never sends the HTTP-date form
+const retryAfterMs = (response: Response) => {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return response.headers.has('Retry-After') && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+};
+
+// Turns the proxy's { error: { category, message } } body into a TranslationError
+const toError = async (response: Response) => {
+  const options = { status: response.status, retryAfterMs: retryAfterMs(response) };
+  try {
+    const error: unknown = field(await response.json(), 'error');
+    const category = field(error, 'category');
+    if (isErrorCategory(category)) {
+      return new TranslationError(category, stringField(error, 'message'), options);
+    }
+  } catch {
+    // Not one of ours, e.g. an HTML error page from a load balancer
+  }
+  const { category } = classifyError({ status: response.status });
+  return new TranslationError(category, category === 'unknown' && response.statusText ? response.statusText : undefined, options);
+};
+
+const post = async (path: string, body: unknown, signal?: AbortSignal, headers: Record<string, string> = {}) => {
+  const response = await fetch(`${PROXY_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) throw await toError(response);
+  return response;
+};
+
+// Token counts the proxy attaches to non-streaming responses
+const reportUsage = (response: Response, options: UsageOptions) => {
+  const input = response.headers.get('X-Input-Tokens');
+  const output = response.headers.get('X-Output-Tokens');
+  if (input === null && output === null) return;
+  options.onUsage?.({ inputTokens: Number(input) || 0, outputTokens: Number(output) || 0 });
+};
+
+const translationBody = (text: string, sourceLang: string, targetLang: string, options: TranslateOptions) => ({
+  text,
+  sourceLang,
+  targetLang,
+  glossary: options.glossary?.length ? options.glossary : undefined,
+  style: options.style,
+});
+
+// Minimal server-sent events reader for the proxy's chunk/done/error events
+const readEvents = async (response: Response, onEvent: (event: string, data: unknown) => void) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      let event = 'message';
+      let data = '';
+      block.split('\n').forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      });
+      onEvent(event, data ? JSON.parse(data) : null);
+    }
+  }
+};
+
+export const proxyTranslateStream = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  onChunk: (chunk: string) => void,
+  options: TranslateOptions = {}
+) => {
+  const response = await post('/translate', translationBody(text, sourceLang, targetLang, options), options.signal, {
+    Accept: 'text/event-stream',
+  });
+
+  let finished = false;
+  await readEvents(response, (event, data) => {
+    options.signal?.throwIfAborted();
+    if (event === 'chunk') onChunk(stringField(data, 'text') ?? '');
+    else if (event === 'usage') {
+      options.onUsage?.({ inputTokens: numberField(data, 'inputTokens') ?? 0, outputTokens: numberField(data, 'outputTokens') ?? 0 });
+    } else if (event === 'done') finished = true;
+    else if (event === 'error') {
+      const category = field(data, 'category');
+      throw new TranslationError(isErrorCategory(category) ? category : 'unknown', stringField(data, 'message'));
+    }
+  });
+  // The connection dropped before the server said it was done
+  if (!finished) throw new TranslationError('network');
+};
+
+export const proxyTranslate = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslateOptions = {}
+): Promise<TranslationResult> => {
+  const response = await post('/translate', translationBody(text, sourceLang, targetLang, options), options.signal);
+  reportUsage(response, options);
+  return response.json();
+};
+
+export const proxyAlternatives = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslateOptions = {}
+): Promise<TranslationAlternative[]> => {
+  const response = await post('/alternatives', translationBody(text, sourceLang, targetLang, options), options.signal);
+  reportUsage(response, options);
+  return response.json();
+};
+
+export const proxyAssessQuality = async (
+  sourceText: string,
+  translatedText: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslateOptions = {}
+): Promise<QualityAssessment> => {
+  const response = await post('/quality', {
+    ...translationBody(sourceText, sourceLang, targetLang, options),
+    translatedText,
+  }, options.signal);
+  reportUsage(response, options);
+  return response.json();
+};
+
+export const proxyDetect = async (text: string, options: RequestOptions = {}): Promise<DetectionResult> => {
+  const response = await post('/detect', { text }, options.signal);
+  reportUsage(response, options);
+  return response.json();
+};
+
+export const proxySpeak = async (
+  text: string,
+  languageName: string,
+  voice?: string,
+  options: RequestOptions = {}
+): Promise<SpeechAudio> => {
+  const response = await post('/speak', { text, languageName, voice }, options.signal);
+  reportUsage(response, options);
+  return {
+    data: new Uint8Array(await response.arrayBuffer()),
+    sampleRate: Number(response.headers.get('X-Sample-Rate')) || 24000,
+    numChannels: Number(response.headers.get('X-Channels')) || 1,
+  };
+};
+
+export const proxyTranscribe = async (audio: Blob, languageName?: string, options: RequestOptions = {}): Promise<string> => {
+  const query = languageName ? `?language=${encodeURIComponent(languageName)}` : '';
+  const response = await fetch(`${PROXY_URL}/transcribe${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': audio.type || 'audio/webm' },
+    body: audio,
+    signal: options.signal,
+  });
+  if (!response.ok) throw await toError(response);
+  reportUsage(response, options);
+  const { text } = await response.json();
+  return text;
+};
+
+export const proxyExtractText = async (image: Blob, options: RequestOptions = {}): Promise<TextBlock[]> => {
+  const response = await fetch(`${PROXY_URL}/extract-text`, {
+    method: 'POST',
+    headers: { 'Content-Type': image.type || 'image/png' },
+    body: image,
+    signal: options.signal,
+  });
+  if (!response.ok) throw await toError(response);
+  reportUsage(response, options);
+  const { blocks } = await response.json();
+  return blocks;
+};
+
+export const proxyProvider: TranslationProvider = {
+  id: 'proxy',
+  translateStream: proxyTranslateStream,
+  translate: proxyTranslate,
+  alternatives: proxyAlternatives,
+  assessQuality: proxyAssessQuality,
+  detect: proxyDetect,
+  speak: proxySpeak,
+  transcribe: proxyTranscribe,
+  extractText: proxyExtractText,
+};
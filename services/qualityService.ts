@@ -0,0 +1,92 @@
+import { QualityAssessment, QualityIssue, TranslateOptions } from "../types";
+import { assessTranslationQuality, detectLanguage, translateText } from "./translationService";
+
+const AUTO_CHECK_KEY = 'lingosync_auto_quality';
+
+export interface QualityReport extends QualityAssessment {
+  // The translation rendered back into the source language
+  backTranslation: string;
+  // Language the back-translation is in; detected when the source was 'auto'
+  backTranslationLanguage: string;
+}
+
+export const getAutoQualityCheck = () => localStorage.getItem(AUTO_CHECK_KEY) === 'true';
+
+export const setAutoQualityCheck = (enabled: boolean) => {
+  localStorage.setItem(AUTO_CHECK_KEY, String(enabled));
+};
+
+const BULLET_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s/;
+
+const countLines = (text: string, test: (line: string) => boolean) =>
+  text.split('\n').filter(test).length;
+
+// The model misses structural damage often enough that the layout promises
+// in SYSTEM_INSTRUCTION are also checked locally
+export const formattingIssues = (sourceText: string, translatedText: string): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+  const sourceBreaks = countLines(sourceText.trim(), () => true) - 1;
+  const translatedBreaks = countLines(translatedText.trim(), () => true) - 1;
+  if (translatedBreaks < sourceBreaks) {
+    issues.push({
+      type: 'formatting',
+      severity: 'major',
+      span: '',
+      explanation: `Line breaks lost: the source has ${sourceBreaks}, the translation ${translatedBreaks}.`,
+    });
+  }
+  const sourceBullets = countLines(sourceText, line => BULLET_PATTERN.test(line));
+  const translatedBullets = countLines(translatedText, line => BULLET_PATTERN.test(line));
+  if (translatedBullets < sourceBullets) {
+    issues.push({
+      type: 'formatting',
+      severity: 'major',
+      span: '',
+      explanation: `List items lost: the source has ${sourceBullets}, the translation ${translatedBullets}.`,
+    });
+  }
+  return issues;
+};
+
+// Back-translation and scoring run side by side; both must succeed
+export const checkQuality = async (
+  sourceText: string,
+  translatedText: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslateOptions = {}
+): Promise<QualityReport> => {
+  let backTranslationLanguage = sourceLang;
+  if (sourceLang === 'auto') {
+    const { language } = await detectLanguage(sourceText, { signal: options.signal });
+    // Undetectable input still gets a back-translation a reviewer can read
+    backTranslationLanguage = language === 'und' ? 'en' : language;
+  }
+  options.signal?.throwIfAborted();
+
+  const [backTranslation, assessment] = await Promise.all([
+    translateText(translatedText, targetLang, backTranslationLanguage, { signal: options.signal }),
+    assessTranslationQuality(sourceText, translatedText, sourceLang, targetLang, options),
+  ]);
+
+  return {
+    ...assessment,
+    issues: [...assessment.issues, ...formattingIssues(sourceText, translatedText)],
+    backTranslation: backTranslation.translatedText,
+    backTranslationLanguage,
+  };
+};
+
+// Where each flagged span occurs in the translation. Omissions and spans the
+// model misquoted have nothing to point at and are left out.
+export const issueRanges = (translatedText: string, issues: QualityIssue[]) =>
+  issues.flatMap(issue => {
+    if (issue.type === 'omission' || !issue.span.trim()) return [];
+    const ranges: { issue: QualityIssue; start: number; end: number }[] = [];
+    let index = translatedText.indexOf(issue.span);
+    while (index >= 0) {
+      ranges.push({ issue, start: index, end: index + issue.span.length });
+      index = translatedText.indexOf(issue.span, index + issue.span.length);
+    }
+    return ranges;
+  });
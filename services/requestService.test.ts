@@ -0,0 +1,200 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_RETRIES, REQUEST_TIMEOUT_MS, TranslationError, classifyError, getNetworkState, withRetry } from "./requestService";
+
+// Abort listeners currently registered on any signal
+const listeners = new Set<EventListenerOrEventListenerObject>();
+// The wrapper actually registered for each listener
+const trackedFor = new Map<EventListenerOrEventListenerObject, EventListenerOrEventListenerObject>();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  const add = AbortSignal.prototype.addEventListener;
+  const remove = AbortSignal.prototype.removeEventListener;
+  vi.spyOn(AbortSignal.prototype, 'addEventListener').mockImplementation(function (this: AbortSignal, type, listener, options) {
+    if (type === 'abort' && listener) {
+      listeners.add(listener);
+      // A { once } listener removes itself when it fires
+      const tracked = typeof options === 'object' && options.once
+        ? (event: Event) => {
+          listeners.delete(listener);
+          if (typeof listener === 'function') listener.call(this, event);
+        }
+        : listener;
+      trackedFor.set(listener, tracked);
+      return add.call(this, type, tracked, options);
+    }
+    return add.call(this, type, listener, options);
+  });
+  vi.spyOn(AbortSignal.prototype, 'removeEventListener').mockImplementation(function (this: AbortSignal, type, listener, options) {
+    if (type === 'abort' && listener) {
+      listeners.delete(listener);
+      return remove.call(this, type, trackedFor.get(listener) ?? listener, options);
+    }
+    return remove.call(this, type, listener, options);
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  listeners.clear();
+  trackedFor.clear();
+});
+
+// Fails with each error in turn, then resolves with 'ok'
+const failing = (...errors: unknown[]) => {
+  const request = vi.fn(async () => {
+    const error = errors[request.mock.calls.length - 1];
+    if (error) throw error;
+    return 'ok';
+  });
+  return request;
+};
+
+// Settles `promise` while advancing fake time, without unhandled rejections
+const settle = async <T>(promise: Promise<T>) => {
+  const result = promise.then(value => ({ value }), error => ({ error }));
+  await vi.runAllTimersAsync();
+  return result;
+};
+
+describe('classifyError', () => {
+  it('maps statuses and messages to categories', () => {
+    expect(classifyError({ status: 429 }).category).toBe('rate-limit');
+    expect(classifyError({ status: 403 }).category).toBe('auth');
+    expect(classifyError({ status: 503 }).category).toBe('server');
+    expect(classifyError(new SyntaxError('Unexpected token')).category).toBe('invalid-response');
+    expect(classifyError(new TypeError('Failed to fetch')).category).toBe('network');
+    expect(classifyError('RESOURCE_EXHAUSTED').category).toBe('rate-limit');
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable failures with backoff until one succeeds', async () => {
+    const request = failing(new TranslationError('server'), new TranslationError('network'));
+    expect(await settle(withRetry(request))).toEqual({ value: 'ok' });
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits longer between each attempt', async () => {
+    const request = failing(new TranslationError('server'), new TranslationError('server'));
+    const result = withRetry(request);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(1);
+    // Math.random is 0.5, so the waits are 250 ms and then 500 ms
+    await vi.advanceTimersByTimeAsync(249);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(await result).toBe('ok');
+  });
+
+  it('gives up after MAX_RETRIES retries', async () => {
+    const request = failing(...Array.from({ length: MAX_RETRIES + 1 }, () => new TranslationError('timeout')));
+    const { error } = await settle(withRetry(request)) as { error: TranslationError };
+    expect(error.category).toBe('timeout');
+    expect(request).toHaveBeenCalledTimes(MAX_RETRIES + 1);
+  });
+
+  it('does not retry non-retryable categories', async () => {
+    const request = failing(new TranslationError('auth'));
+    const { error } = await settle(withRetry(request)) as { error: TranslationError };
+    expect(error.category).toBe('auth');
+    expect(request).toHaveBeenCalledOnce();
+  });
+
+  it('does not retry once canRetry says no', async () => {
+    const request = failing(new TranslationError('server'));
+    await settle(withRetry(request, { canRetry: () => false }));
+    expect(request).toHaveBeenCalledOnce();
+  });
+
+  it('classifies an attempt that exceeds the timeout as a timeout', async () => {
+    const request = vi.fn((signal: AbortSignal) => new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    const result = settle(withRetry(request, { retries: 0 }));
+    const { error } = await result as { error: TranslationError };
+    expect(error).toBeInstanceOf(TranslationError);
+    expect(error.category).toBe('timeout');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('restarts the timeout whenever the request calls keepAlive', async () => {
+    const request = vi.fn(async (_signal: AbortSignal, keepAlive: () => void) => {
+      for (let i = 0; i < 3; i++) {
+        await new Promise(resolve => setTimeout(resolve, REQUEST_TIMEOUT_MS - 1));
+        keepAlive();
+      }
+      return 'ok';
+    });
+    expect(await settle(withRetry(request, { retries: 0 }))).toEqual({ value: 'ok' });
+  });
+
+  it('rejects with AbortError when aborted during backoff', async () => {
+    const controller = new AbortController();
+    const request = failing(new TranslationError('server'));
+    const result = withRetry(request, { signal: controller.signal }).catch(error => error);
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    const error = await result;
+    expect(error).toBeInstanceOf(DOMException);
+    expect(error.name).toBe('AbortError');
+    expect(request).toHaveBeenCalledOnce();
+  });
+
+  it('stops a request that ignores its signal when the caller aborts', async () => {
+    const controller = new AbortController();
+    const result = withRetry(() => new Promise<never>(() => {}), { signal: controller.signal }).catch(error => error);
+    controller.abort();
+    expect((await result).name).toBe('AbortError');
+  });
+
+  it('leaves no abort listeners behind', async () => {
+    const controller = new AbortController();
+    const request = failing(new TranslationError('server'), new TranslationError('server'));
+    await settle(withRetry(request, { signal: controller.signal }));
+    expect(listeners.size).toBe(0);
+
+    const timedOut = settle(withRetry(() => new Promise<never>(() => {}), { signal: controller.signal, retries: 1 }));
+    await timedOut;
+    expect(listeners.size).toBe(0);
+
+    const aborting = new AbortController();
+    const aborted = withRetry(failing(new TranslationError('server')), { signal: aborting.signal }).catch(() => {});
+    await vi.advanceTimersByTimeAsync(10);
+    aborting.abort();
+    await aborted;
+    expect(listeners.size).toBe(0);
+  });
+
+  it('queues requests while offline and sends them once back online', async () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const request = failing();
+    const result = withRetry(request);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(request).not.toHaveBeenCalled();
+    expect(getNetworkState().queued).toBe(1);
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+    expect(await result).toBe('ok');
+    expect(getNetworkState().queued).toBe(0);
+  });
+
+  it('drops a queued request when it is aborted', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const controller = new AbortController();
+    const request = failing();
+    const result = withRetry(request, { signal: controller.signal }).catch(error => error);
+    controller.abort();
+    expect((await result).name).toBe('AbortError');
+    expect(request).not.toHaveBeenCalled();
+    expect(getNetworkState().queued).toBe(0);
+    expect(listeners.size).toBe(0);
+  });
+});
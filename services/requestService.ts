@@ -0,0 +1,224 @@
+// Error classification, retries with backoff, timeouts and offline queueing
+// shared by every provider call.
+
+export type ErrorCategory =
+  | 'offline'
+  | 'network'
+  | 'timeout'
+  | 'rate-limit'
+  | 'auth'
+  | 'server'
+  | 'invalid-response'
+  | 'invalid-input'
+  | 'unknown';
+
+const CATEGORY_MESSAGES: Record<ErrorCategory, string> = {
+  offline: "You're offline. Requests will resume when the connection returns.",
+  network: 'Could not reach the translation service. Check your connection.',
+  timeout: 'The translation service took too long to respond.',
+  'rate-limit': 'The translation service is busy (rate limit reached). Try again in a moment.',
+  auth: 'The translation service rejected the API key.',
+  server: 'The translation service had an internal error.',
+  'invalid-response': 'The translation service returned a response that could not be read.',
+  'invalid-input': "The text can't be translated as entered.",
+  unknown: 'Translation failed. Please try again.',
+};
+
+export const isErrorCategory = (value: unknown): value is ErrorCategory =>
+  typeof value === 'string' && Object.hasOwn(CATEGORY_MESSAGES, value);
+
+const RETRYABLE: ErrorCategory[] = ['offline', 'network', 'timeout', 'rate-limit', 'server', 'invalid-response'];
+
+export class TranslationError extends Error {
+  readonly category: ErrorCategory;
+  readonly retryable: boolean;
+  readonly status?: number;
+  // How long the server asked us to wait, from a Retry-After header
+  readonly retryAfterMs?: number;
+
+  constructor(
+    category: ErrorCategory,
+    message = CATEGORY_MESSAGES[category],
+    options: { status?: number; cause?: unknown; retryAfterMs?: number } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'TranslationError';
+    this.category = category;
+    this.retryable = RETRYABLE.includes(category);
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export const MAX_RETRIES = 3;
+export const REQUEST_TIMEOUT_MS = 30_000;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+
+const categoryForStatus = (status: number): ErrorCategory => {
+  if (status === 429) return 'rate-limit';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 400 || status === 413 || status === 415) return 'invalid-input';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+// Maps anything a provider throws onto a category. Abort errors are left to
+// the caller, since they mean the user cancelled.
+export const classifyError = (error: unknown): TranslationError => {
+  if (error instanceof TranslationError) return error;
+  const err = error as { name?: string; message?: string; status?: number } | undefined;
+  const message = typeof error === 'string' ? error : err?.message || '';
+
+  if (typeof err?.status === 'number') {
+    const category = categoryForStatus(err.status);
+    return new TranslationError(category, category === 'unknown' && message ? message : undefined, { status: err.status, cause: error });
+  }
+  if (!isOnline()) return new TranslationError('offline', undefined, { cause: error });
+  if (err?.name === 'TimeoutError') return new TranslationError('timeout', undefined, { cause: error });
+  if (err?.name === 'SyntaxError') return new TranslationError('invalid-response', undefined, { cause: error });
+  if (/RESOURCE_EXHAUSTED|\b429\b|quota/i.test(message)) return new TranslationError('rate-limit', undefined, { cause: error });
+  if (err?.name === 'TypeError' && /fetch|network/i.test(message)) {
+    return new TranslationError('network', undefined, { cause: error });
+  }
+  return new TranslationError('unknown', message || undefined, { cause: error });
+};
+
+// --- Network status ---------------------------------------------------
+// Requests made while offline wait here until the browser reports a connection.
+
+export interface NetworkState {
+  online: boolean;
+  // Requests currently waiting for the connection to return
+  queued: number;
+}
+
+let networkState: NetworkState = { online: isOnline(), queued: 0 };
+const networkListeners = new Set<() => void>();
+
+const updateNetworkState = (patch: Partial<NetworkState>) => {
+  networkState = { ...networkState, ...patch };
+  networkListeners.forEach(listener => listener());
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => updateNetworkState({ online: true }));
+  window.addEventListener('offline', () => updateNetworkState({ online: false }));
+}
+
+export const subscribeNetworkState = (listener: () => void) => {
+  networkListeners.add(listener);
+  return () => {
+    networkListeners.delete(listener);
+  };
+};
+
+export const getNetworkState = () => networkState;
+
+const whenOnline = (signal?: AbortSignal) => {
+  if (isOnline() || typeof window === 'undefined') return Promise.resolve();
+  updateNetworkState({ queued: networkState.queued + 1 });
+  return new Promise<void>((resolve, reject) => {
+    const finish = () => {
+      window.removeEventListener('online', onOnline);
+      signal?.removeEventListener('abort', onAbort);
+      updateNetworkState({ queued: networkState.queued - 1 });
+    };
+    const onOnline = () => {
+      finish();
+      resolve();
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    window.addEventListener('online', onOnline);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Longest Retry-After we wait out before giving up on the request
+const MAX_RETRY_AFTER_MS = 60_000;
+
+// Exponential backoff with full jitter; rate limits start from a longer base.
+// A Retry-After from the server takes precedence.
+export const backoffDelay = (attempt: number, error: TranslationError) => {
+  if (error.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, MAX_RETRY_AFTER_MS);
+  const base = error.category === 'rate-limit' ? BASE_DELAY_MS * 4 : BASE_DELAY_MS;
+  return Math.random() * Math.min(MAX_DELAY_MS, base * 2 ** attempt);
+};
+
+// Rejects once the signal aborts, for providers that ignore it. `dispose`
+// removes the listener once the attempt has settled.
+const abortion = (signal: AbortSignal) => {
+  let onAbort = () => {};
+  const promise = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  return { promise, dispose: () => signal.removeEventListener('abort', onAbort) };
+};
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  // For streams this is the longest allowed silence between chunks
+  timeoutMs?: number;
+  // Checked before each retry, e.g. so a stream that already emitted text isn't repeated
+  canRetry?: () => boolean;
+}
+
+// Runs `request` with a per-attempt timeout, retrying retryable failures with
+// backoff. `keepAlive` restarts the timeout; streams call it on every chunk.
+export const withRetry = async <T>(
+  request: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+  { signal, retries = MAX_RETRIES, timeoutMs = REQUEST_TIMEOUT_MS, canRetry = () => true }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    await whenOnline(signal);
+    // The signal may have aborted while we waited, before forwardAbort was listening
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const keepAlive = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(new TranslationError('timeout')), timeoutMs);
+    };
+    const forwardAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    const aborted = abortion(controller.signal);
+    keepAlive();
+
+    try {
+      return await Promise.race([request(controller.signal, keepAlive), aborted.promise]);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const reason = controller.signal.reason;
+      const error = controller.signal.aborted && reason instanceof TranslationError ? reason : classifyError(err);
+      if (!error.retryable || attempt >= retries || !canRetry()) throw error;
+      await sleep(backoffDelay(attempt, error), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+      aborted.dispose();
+    }
+  }
+};
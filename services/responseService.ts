@@ -0,0 +1,21 @@
+// Reads fields out of parsed JSON that hasn't been validated, such as model
+// output and proxy responses. Each reader returns undefined for a missing or
+// mistyped field rather than trusting the shape.
+
+export const field = (data: unknown, key: string) =>
+  data !== null && typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, unknown>)[key] : undefined;
+
+export const stringField = (data: unknown, key: string) => {
+  const value = field(data, key);
+  return typeof value === 'string' ? value : undefined;
+};
+
+export const numberField = (data: unknown, key: string) => {
+  const value = field(data, key);
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+export const arrayField = (data: unknown, key: string): unknown[] => {
+  const value = field(data, key);
+  return Array.isArray(value) ? value : [];
+};
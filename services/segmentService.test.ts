@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { TranslationProvider } from "../types";
+import { mockProvider } from "./mockProvider";
+import { chunkSegments, groupParagraphs, joinSegments, MAX_CHUNK_TOKENS, splitSentences, translateSegments } from "./segmentService";
+import { setProvider } from "./translationService";
+
+// Streams whatever `respond` returns for each request and counts the requests
+const scriptedProvider = (respond: (text: string, call: number) => string) => {
+  const provider = {
+    ...mockProvider,
+    calls: 0,
+    translateStream: async (text: string, _source: string, _target: string, onChunk: (chunk: string) => void) => {
+      onChunk(respond(text, provider.calls++));
+    },
+  };
+  return provider satisfies TranslationProvider;
+};
+
+afterEach(() => setProvider('mock'));
+
+describe('splitSentences', () => {
+  it('gives back the input when the parts are joined', () => {
+    const text = '  First sentence. Second one!\n\nThird?  ';
+    expect(splitSentences(text, 'en').map(part => part.text).join('')).toBe(text);
+  });
+
+  it('keeps whitespace out of the segments', () => {
+    const segments = splitSentences('One. Two.\nThree.', 'en').filter(part => part.isSegment).map(part => part.text);
+    expect(segments).toEqual(['One.', 'Two.', 'Three.']);
+  });
+});
+
+describe('splitSentences at false breaks', () => {
+  const segmentsOf = (text: string) => splitSentences(text, 'en').filter(part => part.isSegment).map(part => part.text);
+
+  it('keeps titles and initials with the name that follows', () => {
+    expect(segmentsOf('Dr. Smith arrived. Mr. Jones left.')).toEqual(['Dr. Smith arrived.', 'Mr. Jones left.']);
+    expect(segmentsOf('J. R. R. Tolkien wrote it. Yes.')).toEqual(['J. R. R. Tolkien wrote it.', 'Yes.']);
+  });
+
+  it('keeps a URL in one piece', () => {
+    expect(segmentsOf('See https://example.com/a.b?c=d. Then go.')).toEqual(['See https://example.com/a.b?c=d.', 'Then go.']);
+  });
+
+  it('still breaks at line ends', () => {
+    expect(segmentsOf('Ask Dr.\nSmith.')).toEqual(['Ask Dr.', 'Smith.']);
+  });
+});
+
+describe('joinSegments', () => {
+  it('puts translations between the original separators', () => {
+    const parts = splitSentences('One. Two.\n\nThree.', 'en');
+    expect(joinSegments(parts, ['Un.', 'Deux.', 'Trois.'])).toBe('Un. Deux.\n\nTrois.');
+  });
+});
+
+describe('groupParagraphs', () => {
+  it('starts a new paragraph at every line break', () => {
+    const paragraphs = groupParagraphs(splitSentences('One. Two.\nThree.', 'en'));
+    expect(paragraphs).toEqual([
+      { text: 'One. Two.', segments: [0, 1] },
+      { text: 'Three.', segments: [2] },
+    ]);
+  });
+});
+
+describe('chunkSegments', () => {
+  it('keeps short text in one chunk', () => {
+    expect(chunkSegments(['One.', 'Two.', 'Three.'])).toEqual([[0, 1, 2]]);
+  });
+
+  it('splits long text without dropping or reordering segments', () => {
+    const segments = Array.from({ length: 400 }, (_, i) => `Sentence number ${i} is here.`);
+    const chunks = chunkSegments(segments);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.flat()).toEqual(segments.map((_, i) => i));
+  });
+
+  it('gives an oversized segment a chunk of its own', () => {
+    expect(chunkSegments(['Short.', 'x'.repeat(MAX_CHUNK_TOKENS * 8), 'Short.'])).toEqual([[0], [1], [2]]);
+  });
+});
+
+describe('translateSegments', () => {
+  it('translates every segment with the mock provider', async () => {
+    setProvider('mock');
+    const translations = await translateSegments(['Hello world.', 'Good morning.'], 'en', 'es');
+    expect(translations).toHaveLength(2);
+    expect(translations.join(' ')).toMatch(/hola/i);
+  });
+
+  it('sends all segments of a chunk in one request', async () => {
+    const provider = scriptedProvider(text => text.toUpperCase());
+    setProvider(provider);
+    expect(await translateSegments(['one.', ' two. ', 'three.'], 'en', 'fr')).toEqual(['ONE.', ' TWO. ', 'THREE.']);
+    expect(provider.calls).toBe(1);
+  });
+
+  it('retries a chunk as a whole when the delimiters are lost', async () => {
+    const provider = scriptedProvider((text, call) => (call === 0 ? text.replace(/\s*⟦§⟧\s*/g, ' ') : text));
+    setProvider(provider);
+    expect(await translateSegments(['One.', 'Two.'], 'en', 'fr')).toEqual(['One.', 'Two.']);
+    expect(provider.calls).toBe(2);
+  });
+
+  it('fails rather than misalign segments', async () => {
+    setProvider(scriptedProvider(() => 'merged'));
+    await expect(translateSegments(['One.', 'Two.'], 'en', 'fr')).rejects.toMatchObject({ category: 'invalid-response' });
+  });
+
+  it('reports progress per chunk', async () => {
+    setProvider('mock');
+    const progress: number[] = [];
+    await translateSegments(['One.', 'Two.'], 'en', 'fr', { onProgress: p => progress.push(p.completedChunks) });
+    expect(progress).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,269 @@
+import { TranslateOptions } from "../types";
+import { translateTextStream } from "./translationService";
+import { estimateTokens } from "./inputService";
+import { TranslationError } from "./requestService";
+
+export interface ChunkProgress {
+  completedChunks: number;
+  totalChunks: number;
+}
+
+export interface TextPart {
+  text: string;
+  // False for the whitespace and line breaks between sentences
+  isSegment: boolean;
+}
+
+// Keeps each request well inside the model's comfortable output length.
+// Counted in tokens so that Chinese or Japanese text gets proportionally
+// smaller chunks than English.
+export const MAX_CHUNK_TOKENS = 1000;
+const SEGMENT_DELIMITER = '\n\n⟦§⟧\n\n';
+const DELIMITER_PATTERN = /\s*⟦§⟧\s*/;
+const DELIMITER_TOKENS = estimateTokens(SEGMENT_DELIMITER);
+
+// Titles and abbreviations that end in a full stop but rarely end a sentence
+const ABBREVIATION = /(?:^|[\s(])(?:Mr|Mrs|Ms|Mx|Dr|Prof|Sr|Jr|St|Mt|Rev|Gen|Col|Capt|Lt|Sgt|vs|cf|approx|e\.g|i\.e|Nr|bzw|z\.B|ca)\.$/;
+// A single capital with a full stop, as in "J. R. R. Tolkien"
+const INITIAL = /(?:^|[\s(])\p{Lu}\.$/u;
+// A web address the segmenter cut at its "?" or "."
+const OPEN_URL = /(?:https?:\/\/|www\.)\S*$/;
+
+// Intl.Segmenter breaks after every full stop or question mark followed by
+// more text, so it splits "Dr." from the name after it and URLs at their
+// query string. Those pieces are put back together here.
+const continuesSentence = (sentence: string) => {
+  if (/\n\s*$/.test(sentence)) return false;
+  const core = sentence.trimEnd();
+  if (core.length === sentence.length && OPEN_URL.test(core)) return true;
+  return ABBREVIATION.test(core) || INITIAL.test(core);
+};
+
+const mergeFalseBreaks = (sentences: string[]) =>
+  sentences.reduce<string[]>((merged, sentence) => {
+    const last = merged[merged.length - 1];
+    if (last !== undefined && continuesSentence(last)) merged[merged.length - 1] = last + sentence;
+    else merged.push(sentence);
+    return merged;
+  }, []);
+
+// Splits text into sentences, keeping the whitespace between them as separate
+// parts so that joining every part's text gives back the input unchanged.
+export const splitSentences = (text: string, lang?: string): TextPart[] => {
+  const sentences = mergeFalseBreaks(typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? Array.from(new Intl.Segmenter(lang, { granularity: 'sentence' }).segment(text), s => s.segment)
+    : text.match(/[^.!?\n]+(?:[.!?]+|\n|$)\s*|\s+/g) ?? []);
+
+  const parts: TextPart[] = [];
+  const push = (value: string, isSegment: boolean) => {
+    if (!value) return;
+    const last = parts[parts.length - 1];
+    if (last && !last.isSegment && !isSegment) last.text += value;
+    else parts.push({ text: value, isSegment });
+  };
+  sentences.forEach(sentence => {
+    const [, leading, core, trailing] = sentence.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    push(leading, false);
+    push(core, true);
+    push(trailing, false);
+  });
+  return parts;
+};
+
+// Inverse of splitSentences: puts translated segments back between the
+// original separators. Missing translations render as empty strings.
+export const joinSegments = (parts: TextPart[], translations: string[]) => {
+  let segment = 0;
+  return parts.map(part => (part.isSegment ? translations[segment++] ?? '' : part.text)).join('');
+};
+
+export interface Paragraph {
+  // Source text of the paragraph; reused translations are looked up by it
+  text: string;
+  // Indices of its segments among all segments
+  segments: number[];
+}
+
+// Groups segments into paragraphs, taking every line break as a boundary.
+// splitSentences never puts a line break inside a segment.
+export const groupParagraphs = (parts: TextPart[]): Paragraph[] => {
+  const paragraphs: Paragraph[] = [];
+  let current: Paragraph | null = null;
+  let index = 0;
+  parts.forEach(part => {
+    if (!part.isSegment && part.text.includes('\n')) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { text: '', segments: [] };
+      paragraphs.push(current);
+    }
+    current.text += part.text;
+    if (part.isSegment) current.segments.push(index++);
+  });
+  return paragraphs.filter(p => p.segments.length > 0).map(p => ({ ...p, text: p.text.trim() }));
+};
+
+// Segment translations per paragraph, keyed by the paragraph's source text
+export const paragraphTranslations = (parts: TextPart[], translations: string[]) =>
+  new Map(groupParagraphs(parts).map(p => [p.text, p.segments.map(i => translations[i])]));
+
+// Packs consecutive segments into chunks of at most MAX_CHUNK_TOKENS. A
+// segment larger than that on its own still gets a chunk to itself.
+export const chunkSegments = (segments: string[]) => {
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  let size = 0;
+  segments.forEach((segment, i) => {
+    const cost = estimateTokens(segment) + DELIMITER_TOKENS;
+    if (current.length && size + cost > MAX_CHUNK_TOKENS) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(i);
+    size += cost;
+  });
+  if (current.length) chunks.push(current);
+  return chunks;
+};
+
+// Cuts text that is still too long after sentence splitting, preferring a
+// break at whitespace and never cutting through a ⟦n⟧ marker. Every piece is
+// at most MAX_CHUNK_TOKENS characters, and so at most that many tokens.
+const splitByLength = (text: string): TextPart[] => {
+  const parts: TextPart[] = [];
+  let rest = text;
+  while (rest.length > MAX_CHUNK_TOKENS) {
+    const window = rest.slice(0, MAX_CHUNK_TOKENS);
+    const space = window.search(/\s+\S*$/);
+    let cut = space > MAX_CHUNK_TOKENS / 2 ? space : MAX_CHUNK_TOKENS;
+    const marker = window.lastIndexOf('⟦');
+    if (marker > 0 && marker < cut && !window.slice(marker, cut).includes('⟧')) cut = marker;
+    const [whitespace] = rest.slice(cut).match(/^\s*/)!;
+    parts.push({ text: rest.slice(0, cut), isSegment: true });
+    if (whitespace) parts.push({ text: whitespace, isSegment: false });
+    rest = rest.slice(cut + whitespace.length);
+  }
+  if (rest) parts.push({ text: rest, isSegment: true });
+  return parts;
+};
+
+// Lays a segment out as pieces that each fit in a chunk: by sentence first
+// (which also breaks at line ends), then by length
+const splitOversized = (segment: string): TextPart[] => {
+  if (estimateTokens(segment) <= MAX_CHUNK_TOKENS) return [{ text: segment, isSegment: true }];
+  const sentences = splitSentences(segment);
+  if (sentences.filter(part => part.isSegment).length > 1) {
+    return sentences.flatMap(part => (part.isSegment ? splitOversized(part.text) : [part]));
+  }
+  return splitByLength(segment);
+};
+
+// Models tend to trim or pad their output; keep the segment's own edges
+const keepEdges = (original: string, translated: string) => {
+  const leading = original.match(/^\s*/)![0];
+  const trailing = original.match(/\s*$/)![0];
+  return leading + translated.trim() + trailing;
+};
+
+const streamTranslation = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslateOptions,
+  onText?: (text: string) => void
+) => {
+  let result = '';
+  await translateTextStream(text, sourceLang, targetLang, (chunk) => {
+    result += chunk;
+    onText?.(result);
+  }, options);
+  return result;
+};
+
+export interface SegmentTranslationOptions extends TranslateOptions {
+  onProgress?: (progress: ChunkProgress) => void;
+  // Streams the in-progress translation of a single segment
+  onPartial?: (index: number, text: string) => void;
+}
+
+// Translates segments in as few requests as possible: each chunk goes out as
+// one text with a delimiter between segments, so the model sees neighbouring
+// segments as context, and the system prompt tells it to keep the delimiters.
+// A chunk that comes back with a different number of pieces is translated
+// once more as a whole; if it still can't be split, the run fails rather
+// than pairing segments with the wrong translations.
+const translatePieces = async (
+  segments: string[],
+  sourceLang: string,
+  targetLang: string,
+  options: SegmentTranslationOptions
+) => {
+  const { onProgress, onPartial, ...translateOptions } = options;
+  const translations: string[] = [...segments];
+  const chunks = chunkSegments(segments);
+  onProgress?.({ completedChunks: 0, totalChunks: chunks.length });
+
+  const translateChunk = async (indices: number[]) => {
+    const joined = indices.map(i => segments[i]).join(SEGMENT_DELIMITER);
+    const translated = await streamTranslation(joined, sourceLang, targetLang, translateOptions, (text) => {
+      if (!onPartial) return;
+      // A chunk can finish one segment and start the next, so re-emit them all
+      text.split(DELIMITER_PATTERN).slice(0, indices.length).forEach((piece, i) => {
+        onPartial(indices[i], piece.trimStart());
+      });
+    });
+    return translated.split(DELIMITER_PATTERN);
+  };
+
+  for (let c = 0; c < chunks.length; c++) {
+    const indices = chunks[c];
+    let pieces = await translateChunk(indices);
+    if (pieces.length !== indices.length) pieces = await translateChunk(indices);
+    if (pieces.length !== indices.length) {
+      throw new TranslationError('invalid-response', "The model merged or split sentences, so the translation couldn't be lined up with the source. Try again.");
+    }
+    indices.forEach((segmentIndex, i) => {
+      translations[segmentIndex] = keepEdges(segments[segmentIndex], pieces[i]);
+      onPartial?.(segmentIndex, translations[segmentIndex]);
+    });
+    onProgress?.({ completedChunks: c + 1, totalChunks: chunks.length });
+  }
+
+  return translations;
+};
+
+// Segments too long for one request, such as a text file without blank
+// lines, are split into pieces, translated as separate segments and joined
+// again, so no request exceeds MAX_CHUNK_TOKENS or the proxy's text limit
+export const translateSegments = async (
+  segments: string[],
+  sourceLang: string,
+  targetLang: string,
+  options: SegmentTranslationOptions = {}
+) => {
+  const layouts = segments.map(splitOversized);
+  const pieces = layouts.flatMap(parts => parts.filter(part => part.isSegment).map(part => part.text));
+  if (pieces.length === segments.length) return translatePieces(segments, sourceLang, targetLang, options);
+
+  const owners = layouts.flatMap((parts, i) => parts.filter(part => part.isSegment).map(() => i));
+  const starts = segments.map((_, i) => owners.indexOf(i));
+  const reassemble = (translated: string[], segmentIndex: number) => {
+    const start = starts[segmentIndex];
+    const end = starts[segmentIndex + 1] ?? owners.length;
+    return joinSegments(layouts[segmentIndex], translated.slice(start, end));
+  };
+
+  const { onPartial } = options;
+  const partial: string[] = [];
+  const translated = await translatePieces(pieces, sourceLang, targetLang, {
+    ...options,
+    onPartial: onPartial && ((j, text) => {
+      partial[j] = text;
+      onPartial(owners[j], reassemble(partial, owners[j]));
+    }),
+  });
+  return segments.map((_, i) => reassemble(translated, i));
+};
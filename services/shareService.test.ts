@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from "vitest";
+import { SharedTranslation, decodeShareHash, encodeShareHash } from "./shareService";
+
+const shared: SharedTranslation = {
+  text: 'Grüße aus Köln! 👋\nSecond line',
+  sourceLang: 'de',
+  targetLang: 'en',
+  style: { formality: 'formal', tone: 'casual' },
+};
+
+describe('share links', () => {
+  it('round-trips text, languages and style', async () => {
+    const hash = await encodeShareHash(shared);
+    expect(hash).toMatch(/^#share=[A-Za-z0-9_-]+$/);
+    expect(await decodeShareHash(hash)).toEqual(shared);
+  });
+
+  it('ignores hashes that are not share links', async () => {
+    expect(await decodeShareHash('#section')).toBeNull();
+  });
+
+  it('returns null for a damaged link', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await decodeShareHash('#share=not-deflated')).toBeNull();
+  });
+
+  it('falls back to the default style for unknown values', async () => {
+    const hash = await encodeShareHash({ ...shared, style: { formality: 'rude', tone: 'loud' } as never });
+    expect((await decodeShareHash(hash))?.style).toEqual({ formality: 'auto', tone: 'neutral' });
+  });
+});
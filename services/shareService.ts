@@ -0,0 +1,57 @@
+import { TranslationStyle } from "../types";
+import { FORMALITY_OPTIONS, TONE_PRESETS } from "../constants";
+import { DEFAULT_STYLE } from "./styleService";
+
+// Share links carry the whole request in the URL hash, deflated and
+// base64url-encoded, so they work without a server and never reach one
+const HASH_PREFIX = '#share=';
+
+export interface SharedTranslation {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  style: TranslationStyle;
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+export const encodeShareHash = async (shared: SharedTranslation) => {
+  const json = new TextEncoder().encode(JSON.stringify(shared));
+  return HASH_PREFIX + toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+};
+
+export const shareUrl = async (shared: SharedTranslation) =>
+  `${window.location.origin}${window.location.pathname}${window.location.search}${await encodeShareHash(shared)}`;
+
+// Null for hashes that aren't share links or don't decode; a damaged link
+// shouldn't break the app
+export const decodeShareHash = async (hash: string): Promise<SharedTranslation | null> => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    const json = await pipe(fromBase64Url(hash.slice(HASH_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    const data = JSON.parse(new TextDecoder().decode(json));
+    if (typeof data.text !== 'string' || typeof data.sourceLang !== 'string' || typeof data.targetLang !== 'string') {
+      return null;
+    }
+    const formality = FORMALITY_OPTIONS.find(o => o.id === data.style?.formality)?.id ?? DEFAULT_STYLE.formality;
+    const tone = TONE_PRESETS.find(p => p.id === data.style?.tone)?.id ?? DEFAULT_STYLE.tone;
+    return { text: data.text, sourceLang: data.sourceLang, targetLang: data.targetLang, style: { formality, tone } };
+  } catch (e) {
+    console.error("Failed to open share link", e);
+    return null;
+  }
+};
@@ -0,0 +1,82 @@
+// Global keyboard shortcuts. Keys are matched by KeyboardEvent.code so that
+// Alt combinations still work on layouts where Alt types a character. Only
+// the Ctrl/Cmd shortcuts fire inside text fields; the rest would swallow
+// characters typed with Alt or Option.
+
+export interface Shortcut {
+  code: string;
+  // Ctrl, or Cmd on Apple devices
+  mod?: boolean;
+  alt?: boolean;
+  shift?: boolean;
+}
+
+export type ShortcutId = 'palette' | 'translate' | 'swap' | 'copy' | 'speak' | 'focusInput' | 'targetLanguage' | 'help';
+
+export const SHORTCUTS: Record<ShortcutId, Shortcut> = {
+  palette: { code: 'KeyK', mod: true },
+  translate: { code: 'Enter', mod: true },
+  swap: { code: 'KeyS', alt: true },
+  copy: { code: 'KeyC', alt: true },
+  speak: { code: 'KeyL', alt: true },
+  focusInput: { code: 'KeyI', alt: true },
+  targetLanguage: { code: 'KeyT', alt: true },
+  // "?"
+  help: { code: 'Slash', shift: true },
+};
+
+export const SHORTCUT_DESCRIPTIONS: Record<ShortcutId, string> = {
+  palette: 'Open the command palette',
+  translate: 'Translate now',
+  swap: 'Swap languages',
+  copy: 'Copy the translation',
+  speak: 'Listen to the translation',
+  focusInput: 'Focus the text box',
+  targetLanguage: 'Choose the target language',
+  help: 'Show keyboard shortcuts',
+};
+
+const isApple = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const keyName = (code: string) => (code === 'Slash' ? '/' : code.replace(/^Key|^Digit/, ''));
+
+// Shift+/ is written the way it is typed
+const isQuestionMark = (shortcut: Shortcut) =>
+  shortcut.code === 'Slash' && !!shortcut.shift && !shortcut.mod && !shortcut.alt;
+
+type KeyEvent = Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+export const matchesShortcut = (event: KeyEvent, shortcut: Shortcut) =>
+  event.code === shortcut.code &&
+  !!shortcut.mod === (event.ctrlKey || event.metaKey) &&
+  !!shortcut.alt === event.altKey &&
+  !!shortcut.shift === event.shiftKey;
+
+// For display, e.g. "Ctrl+K" or "⌘K"
+export const formatShortcut = (shortcut: Shortcut) => {
+  if (isQuestionMark(shortcut)) return '?';
+  const apple = isApple();
+  const keys = [
+    shortcut.mod && (apple ? '⌘' : 'Ctrl'),
+    shortcut.alt && (apple ? '⌥' : 'Alt'),
+    shortcut.shift && (apple ? '⇧' : 'Shift'),
+    keyName(shortcut.code),
+  ].filter(Boolean);
+  return keys.join(apple ? '' : '+');
+};
+
+// For aria-keyshortcuts, which lists the Ctrl and Cmd forms separately
+export const ariaShortcut = (shortcut: Shortcut) => {
+  if (isQuestionMark(shortcut)) return '?';
+  const rest = [shortcut.alt && 'Alt', shortcut.shift && 'Shift', keyName(shortcut.code)].filter(Boolean).join('+');
+  return shortcut.mod ? `Control+${rest} Meta+${rest}` : rest;
+};
+
+// Shortcuts without Ctrl or Cmd must not fire while the user is typing
+export const isTypingTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (
+    element.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName)
+  );
+};
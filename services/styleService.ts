@@ -0,0 +1,55 @@
+import { TonePreset, TranslationStyle } from "../types";
+import { FORMALITY_OPTIONS, TONE_PRESETS } from "../constants";
+
+const STORAGE_KEY = 'lingosync_style';
+
+export const DEFAULT_STYLE: TranslationStyle = { formality: 'auto', tone: 'neutral' };
+
+const TONE_INSTRUCTIONS: Record<TonePreset, string> = {
+  neutral: '',
+  legal: 'Use precise legal register: keep defined terms consistent, prefer established legal terminology in the target language and never paraphrase obligations.',
+  marketing: 'Write persuasive, idiomatic marketing copy that reads as if it were written in the target language; adapt idioms and wordplay rather than translating them literally.',
+  casual: 'Write the way people chat informally: short, natural phrasing, everyday vocabulary and contractions where the language uses them.',
+  technical: 'Use standard technical terminology for the target language, keep product names, identifiers and units unchanged, and favour clarity over elegance.',
+};
+
+// Sampling temperature per tone; creative registers get more freedom
+export const TONE_TEMPERATURE: Record<TonePreset, number> = {
+  neutral: 0.2,
+  legal: 0.1,
+  marketing: 0.6,
+  casual: 0.4,
+  technical: 0.1,
+};
+
+// Unknown values, e.g. from an older version, fall back to the defaults
+export const loadStyle = (): TranslationStyle => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      formality: FORMALITY_OPTIONS.find(o => o.id === stored?.formality)?.id ?? DEFAULT_STYLE.formality,
+      tone: TONE_PRESETS.find(p => p.id === stored?.tone)?.id ?? DEFAULT_STYLE.tone,
+    };
+  } catch {
+    return DEFAULT_STYLE;
+  }
+};
+
+export const saveStyle = (style: TranslationStyle) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(style));
+};
+
+export const isDefaultStyle = (style?: TranslationStyle) =>
+  !style || (style.formality === DEFAULT_STYLE.formality && style.tone === DEFAULT_STYLE.tone);
+
+// Extra system-prompt lines for the chosen register; empty for the defaults
+export const styleInstruction = ({ formality, tone }: TranslationStyle) => {
+  const lines: string[] = [];
+  if (formality === 'formal') {
+    lines.push('Address the reader formally. In languages with a T-V distinction use the polite form (e.g. vous, Sie, usted, Lei).');
+  } else if (formality === 'informal') {
+    lines.push('Address the reader informally. In languages with a T-V distinction use the familiar form (e.g. tu, du, tú).');
+  }
+  if (TONE_INSTRUCTIONS[tone]) lines.push(TONE_INSTRUCTIONS[tone]);
+  return lines.join('\n');
+};
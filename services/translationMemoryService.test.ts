@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { MemoryEntry } from "../types";
+import { matchSegments, similarity } from "./translationMemoryService";
+
+const entry = (sourceText: string, targetText = sourceText.toUpperCase(), timestamp = 0): MemoryEntry => ({
+  id: sourceText,
+  sourceLanguage: 'en',
+  targetLanguage: 'fr',
+  sourceText,
+  targetText,
+  timestamp,
+});
+
+describe('similarity', () => {
+  it('ignores case and whitespace', () => {
+    expect(similarity('Hello  World', 'hello world')).toBe(1);
+  });
+
+  it('scores by edit distance over the longer text', () => {
+    expect(similarity('kitten', 'sitten')).toBeCloseTo(5 / 6);
+  });
+});
+
+describe('matchSegments', () => {
+  it('prefers the newest exact match', () => {
+    const { exact } = matchSegments(['Good morning.'], [entry('Good morning.', 'old', 1), entry('Good  morning.', 'new', 2)], 0.75);
+    expect(exact[0]?.targetText).toBe('new');
+  });
+
+  it('finds the closest fuzzy match above the threshold', () => {
+    const entries = [entry('The meeting starts at nine.'), entry('The meeting starts at noon.'), entry('Unrelated text here.')];
+    const { exact, fuzzy } = matchSegments(['The meeting starts at nine!'], entries, 0.75);
+    expect(exact[0]).toBeUndefined();
+    expect(fuzzy[0]?.entry.sourceText).toBe('The meeting starts at nine.');
+  });
+
+  it('reports nothing below the threshold', () => {
+    expect(matchSegments(['Completely different.'], [entry('The meeting starts at nine.')], 0.75).fuzzy[0]).toBeUndefined();
+  });
+
+  it('still finds the match in a large memory', () => {
+    const entries = Array.from({ length: 20_000 }, (_, i) => entry(`Invoice ${i} was sent to customer number ${i * 7}.`));
+    entries.push(entry('Please restart the router before calling support.'));
+    const { fuzzy } = matchSegments(['Please restart your router before calling support.'], entries, 0.75);
+    expect(fuzzy[0]?.entry.sourceText).toBe('Please restart the router before calling support.');
+  });
+});
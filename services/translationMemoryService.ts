@@ -0,0 +1,196 @@
+import { MemoryEntry } from "../types";
+import { MEMORY_STORE, openDatabase, requestToPromise, transactionDone } from "./database";
+import { escapeXml } from "./fileService";
+
+const THRESHOLD_KEY = 'lingosync_tm_threshold';
+export const DEFAULT_FUZZY_THRESHOLD = 0.75;
+
+// The oldest segment pairs beyond this are dropped
+export const MEMORY_LIMIT = 20_000;
+// Entries sharing the most character trigrams with a segment are the only
+// ones compared by edit distance, which keeps lookups fast on a large memory
+const MAX_FUZZY_CANDIDATES = 20;
+
+export interface MemoryMatch {
+  entry: MemoryEntry;
+  // 1 for an exact match, down to the fuzzy threshold
+  score: number;
+}
+
+export interface SegmentMatches {
+  exact: (MemoryEntry | undefined)[];
+  fuzzy: (MemoryMatch | undefined)[];
+}
+
+// Whitespace differences never make two segments distinct
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+const entryId = (sourceLanguage: string, targetLanguage: string, sourceText: string) =>
+  `${sourceLanguage}|${targetLanguage}|${normalize(sourceText)}`;
+
+export const getFuzzyThreshold = () => {
+  const saved = Number(localStorage.getItem(THRESHOLD_KEY));
+  return saved > 0 && saved <= 1 ? saved : DEFAULT_FUZZY_THRESHOLD;
+};
+
+export const setFuzzyThreshold = (threshold: number) => {
+  localStorage.setItem(THRESHOLD_KEY, String(threshold));
+};
+
+// With auto-detect the source is unknown, so every entry for the target applies
+export const loadMemory = async (sourceLang: string, targetLang: string): Promise<MemoryEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MEMORY_STORE, 'readonly');
+  const entries: MemoryEntry[] = await requestToPromise(
+    tx.objectStore(MEMORY_STORE).index('targetLanguage').getAll(targetLang)
+  );
+  return sourceLang === 'auto' ? entries : entries.filter(e => e.sourceLanguage === sourceLang);
+};
+
+export const loadAllMemory = async (): Promise<MemoryEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MEMORY_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(MEMORY_STORE).getAll());
+};
+
+const pruneOldest = (store: IDBObjectStore) => {
+  let kept = 0;
+  const cursorRequest = store.index('timestamp').openCursor(null, 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if (++kept > MEMORY_LIMIT) cursor.delete();
+    cursor.continue();
+  };
+};
+
+// Stores source/target segment pairs; a newer translation of the same source
+// segment replaces the older one
+export const addMemoryEntries = async (
+  sourceLang: string,
+  targetLang: string,
+  pairs: { sourceText: string; targetText: string }[]
+) => {
+  const usable = pairs.filter(p => normalize(p.sourceText) && normalize(p.targetText));
+  if (usable.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(MEMORY_STORE, 'readwrite');
+  const store = tx.objectStore(MEMORY_STORE);
+  const timestamp = Date.now();
+  usable.forEach(({ sourceText, targetText }) => {
+    store.put({
+      id: entryId(sourceLang, targetLang, sourceText),
+      sourceLanguage: sourceLang,
+      targetLanguage: targetLang,
+      sourceText: normalize(sourceText),
+      targetText: targetText.trim(),
+      timestamp,
+    } satisfies MemoryEntry);
+  });
+  pruneOldest(store);
+  await transactionDone(tx);
+};
+
+export const clearMemory = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(MEMORY_STORE, 'readwrite');
+  tx.objectStore(MEMORY_STORE).clear();
+  await transactionDone(tx);
+};
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Case-insensitive edit-distance similarity between 0 and 1
+export const similarity = (a: string, b: string) => {
+  const x = normalize(a).toLowerCase();
+  const y = normalize(b).toLowerCase();
+  const longest = Math.max(x.length, y.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(x, y) / longest;
+};
+
+// Distinct three-character sequences, padded so word edges count too
+const trigrams = (text: string) => {
+  const padded = ` ${normalize(text).toLowerCase()} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+// Maps each trigram to the indices of the entries containing it
+const indexTrigrams = (entries: MemoryEntry[]) => {
+  const index = new Map<string, number[]>();
+  entries.forEach((entry, i) => {
+    trigrams(entry.sourceText).forEach(gram => {
+      const postings = index.get(gram);
+      if (postings) postings.push(i);
+      else index.set(gram, [i]);
+    });
+  });
+  return index;
+};
+
+export const matchSegments = (segments: string[], entries: MemoryEntry[], threshold: number): SegmentMatches => {
+  const bySource = new Map<string, MemoryEntry>();
+  // Newest wins when several source languages share a segment under auto-detect
+  [...entries].sort((a, b) => a.timestamp - b.timestamp).forEach(e => bySource.set(normalize(e.sourceText), e));
+
+  const exact = segments.map(segment => bySource.get(normalize(segment)));
+  const index = exact.every(Boolean) ? new Map<string, number[]>() : indexTrigrams(entries);
+  const fuzzy = segments.map((segment, i) => {
+    if (exact[i]) return undefined;
+    const length = normalize(segment).length;
+    const shared = new Map<number, number>();
+    trigrams(segment).forEach(gram => {
+      index.get(gram)?.forEach(e => shared.set(e, (shared.get(e) ?? 0) + 1));
+    });
+    const candidates = [...shared]
+      // Length alone caps the achievable score, so skip hopeless candidates early
+      .filter(([e]) => {
+        const other = entries[e].sourceText.length;
+        return Math.min(length, other) / Math.max(length, other, 1) >= threshold;
+      })
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_FUZZY_CANDIDATES);
+
+    let best: MemoryMatch | undefined;
+    candidates.forEach(([e]) => {
+      const score = similarity(segment, entries[e].sourceText);
+      if (score >= threshold && (!best || score > best.score)) best = { entry: entries[e], score };
+    });
+    return best;
+  });
+  return { exact, fuzzy };
+};
+
+const tmxDate = (timestamp: number) => new Date(timestamp).toISOString().replace(/[-:]|\.\d{3}/g, '');
+
+// TMX 1.4b, one translation unit per stored segment pair
+export const exportTmx = (entries: MemoryEntry[]) => {
+  const units = entries.map(e => `    <tu creationdate="${tmxDate(e.timestamp)}" srclang="${escapeXml(e.sourceLanguage)}">
+      <tuv xml:lang="${escapeXml(e.sourceLanguage)}"><seg>${escapeXml(e.sourceText)}</seg></tuv>
+      <tuv xml:lang="${escapeXml(e.targetLanguage)}"><seg>${escapeXml(e.targetText)}</seg></tuv>
+    </tu>`);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="LingoSync" creationtoolversion="1.0" segtype="sentence" o-tmf="LingoSync" adminlang="en" srclang="*all*" datatype="plaintext" creationdate="${tmxDate(Date.now())}"/>
+  <body>
+${units.join('\n')}
+  </body>
+</tmx>
+`;
+};
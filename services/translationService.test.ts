@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TranslationProvider } from "../types";
+import { estimateTokens } from "./inputService";
+import { TranslationError } from "./requestService";
+import { setProvider, translateText, translateTextStream, transcribeAudio } from "./translationService";
+import { clearUsage, getSessionUsage, getUsage } from "./usageService";
+
+const TEXT = 'Good morning, everyone.';
+const RESULT = { translatedText: 'Guten Morgen zusammen.', sourceLanguage: 'en', targetLanguage: 'de' };
+
+const useProvider = (overrides: Partial<TranslationProvider>) =>
+  setProvider({ ...overrides } as TranslationProvider);
+
+const usageRow = () => getUsage()[0];
+
+beforeEach(() => {
+  localStorage.clear();
+  clearUsage();
+  // No jitter, so retries happen straight away
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  setProvider('mock');
+});
+
+describe('usage metering', () => {
+  it('records reported usage once per request', async () => {
+    useProvider({
+      translate: async (_text, _source, _target, options) => {
+        options?.onUsage?.({ inputTokens: 12, outputTokens: 7 });
+        return RESULT;
+      },
+    });
+    await translateText(TEXT, 'en', 'de');
+    expect(usageRow()).toMatchObject({ operation: 'translate', sourceLanguage: 'en', targetLanguage: 'de', requests: 1, inputTokens: 12, outputTokens: 7 });
+    expect(getSessionUsage()).toMatchObject({ requests: 1, inputTokens: 12, outputTokens: 7 });
+  });
+
+  it('counts a cancelled stream and estimates its input', async () => {
+    const controller = new AbortController();
+    useProvider({
+      translateStream: (_text, _source, _target, onChunk, options) =>
+        new Promise((_, reject) => {
+          options?.signal?.addEventListener('abort', () => reject(options.signal!.reason));
+          onChunk('Guten');
+        }),
+    });
+    const stream = translateTextStream(TEXT, 'en', 'de', () => controller.abort(), { signal: controller.signal });
+    await expect(stream).rejects.toThrow();
+    expect(usageRow()).toMatchObject({ requests: 1, inputTokens: estimateTokens(TEXT), outputTokens: 0 });
+  });
+
+  it('counts every failed attempt before the one that succeeds', async () => {
+    let attempts = 0;
+    useProvider({
+      translate: async (_text, _source, _target, options) => {
+        if (++attempts < 3) throw new TranslationError('server');
+        options?.onUsage?.({ inputTokens: 10, outputTokens: 5 });
+        return RESULT;
+      },
+    });
+    await translateText(TEXT, 'en', 'de');
+    expect(usageRow()).toMatchObject({ requests: 3, inputTokens: 2 * estimateTokens(TEXT) + 10, outputTokens: 5 });
+  });
+
+  it('counts media calls without usage but has nothing to estimate', async () => {
+    useProvider({ transcribe: async () => 'hello' });
+    await transcribeAudio(new Blob(['audio']));
+    expect(usageRow()).toMatchObject({ operation: 'transcribe', requests: 1, inputTokens: 0, outputTokens: 0 });
+  });
+});
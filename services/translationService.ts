@@ -0,0 +1,161 @@
+import { RequestOptions, TokenUsage, TranslateOptions, TranslationProvider, UsageOptions } from "../types";
+import { proxyProvider } from "./proxyProvider";
+import { mockProvider } from "./mockProvider";
+import { withRetry } from "./requestService";
+import { UsageOperation, recordRequest, recordUsage } from "./usageService";
+import { estimateTokens, sanitizeInput } from "./inputService";
+
+// The browser never talks to Gemini directly; the proxy in server/ holds the key
+const PROVIDERS = {
+  proxy: proxyProvider,
+  mock: mockProvider,
+};
+
+type ClientProviderId = keyof typeof PROVIDERS;
+
+const resolveProviderId = (value: string | undefined): ClientProviderId =>
+  value && value in PROVIDERS ? (value as ClientProviderId) : 'proxy';
+
+let activeProvider: TranslationProvider = PROVIDERS[resolveProviderId(process.env.TRANSLATION_PROVIDER)];
+
+export const getProvider = () => activeProvider;
+
+export const setProvider = (provider: ClientProviderId | TranslationProvider) => {
+  activeProvider = typeof provider === 'string' ? PROVIDERS[provider] : provider;
+};
+
+// Every call goes through withRetry, so providers only need to throw; timeouts,
+// backoff and offline queueing are handled here for all of them. Usage is
+// metered here too, per attempt, since failed and aborted attempts are billed
+// as well.
+
+// Audio and image uploads take longer than text
+const MEDIA_TIMEOUT_MS = 60_000;
+
+// The opening of a text identifies its language as well as the whole would,
+// and keeps detection cheap on long inputs
+export const DETECTION_SAMPLE_CHARS = 500;
+
+interface Meter {
+  operation: UsageOperation;
+  // Text sent to the model, estimated when no usage is reported
+  input?: string;
+  sourceLang?: string;
+  targetLang?: string;
+}
+
+// Counts the attempt as soon as it is sent. If it ends without a usage report,
+// e.g. a stream that was cancelled or cut off, its input is estimated instead.
+const metered = async <T>(
+  { operation, input, sourceLang, targetLang }: Meter,
+  options: UsageOptions,
+  send: (onUsage: (usage: TokenUsage) => void) => Promise<T>
+): Promise<T> => {
+  recordRequest(operation, sourceLang, targetLang);
+  let reported = false;
+  try {
+    return await send(usage => {
+      reported = true;
+      recordUsage(operation, usage, sourceLang, targetLang);
+      options.onUsage?.(usage);
+    });
+  } finally {
+    if (!reported && input) {
+      recordUsage(operation, { inputTokens: estimateTokens(input), outputTokens: 0 }, sourceLang, targetLang);
+    }
+  }
+};
+
+export const translateTextStream = (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  onChunk: (chunk: string) => void,
+  options: TranslateOptions = {}
+) => {
+  const input = sanitizeInput(text);
+  // Once text has been shown, a retry would repeat it
+  let received = false;
+  return withRetry(
+    (signal, keepAlive) => metered({ operation: 'translate', input, sourceLang, targetLang }, options, onUsage =>
+      activeProvider.translateStream(input, sourceLang, targetLang, (chunk) => {
+        received = true;
+        keepAlive();
+        onChunk(chunk);
+      }, { ...options, signal, onUsage })
+    ),
+    { signal: options.signal, canRetry: () => !received }
+  );
+};
+
+export const translateText = (text: string, sourceLang: string, targetLang: string, options: TranslateOptions = {}) => {
+  const input = sanitizeInput(text);
+  return withRetry(
+    signal => metered({ operation: 'translate', input, sourceLang, targetLang }, options, onUsage =>
+      activeProvider.translate(input, sourceLang, targetLang, { ...options, signal, onUsage })
+    ),
+    { signal: options.signal }
+  );
+};
+
+export const translateAlternatives = (text: string, sourceLang: string, targetLang: string, options: TranslateOptions = {}) => {
+  const input = sanitizeInput(text);
+  return withRetry(
+    signal => metered({ operation: 'alternatives', input, sourceLang, targetLang }, options, onUsage =>
+      activeProvider.alternatives(input, sourceLang, targetLang, { ...options, signal, onUsage })
+    ),
+    { signal: options.signal }
+  );
+};
+
+export const assessTranslationQuality = (
+  sourceText: string,
+  translatedText: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslateOptions = {}
+) => {
+  const source = sanitizeInput(sourceText);
+  return withRetry(
+    signal => metered({ operation: 'quality', input: source + translatedText, sourceLang, targetLang }, options, onUsage =>
+      activeProvider.assessQuality(source, translatedText, sourceLang, targetLang, { ...options, signal, onUsage })
+    ),
+    { signal: options.signal }
+  );
+};
+
+export const detectLanguage = (text: string, options: RequestOptions = {}) => {
+  const sample = sanitizeInput(text).slice(0, DETECTION_SAMPLE_CHARS);
+  return withRetry(
+    signal => metered({ operation: 'detect', input: sample }, options, onUsage =>
+      activeProvider.detect(sample, { onUsage, signal })
+    ),
+    { signal: options.signal }
+  );
+};
+
+// Audio and images can't be estimated from text, so a call that reports no
+// usage is only counted
+export const transcribeAudio = (audio: Blob, languageName?: string, options: RequestOptions = {}) =>
+  withRetry(
+    signal => metered({ operation: 'transcribe' }, options, onUsage =>
+      activeProvider.transcribe(audio, languageName, { onUsage, signal })
+    ),
+    { signal: options.signal, timeoutMs: MEDIA_TIMEOUT_MS }
+  );
+
+export const synthesizeSpeech = (text: string, languageName: string, voice?: string, options: RequestOptions = {}) =>
+  withRetry(
+    signal => metered({ operation: 'speak', input: text }, options, onUsage =>
+      activeProvider.speak(text, languageName, voice, { onUsage, signal })
+    ),
+    { signal: options.signal, timeoutMs: MEDIA_TIMEOUT_MS }
+  );
+
+export const extractImageText = (image: Blob, options: RequestOptions = {}) =>
+  withRetry(
+    signal => metered({ operation: 'extract-text' }, options, onUsage =>
+      activeProvider.extractText(image, { onUsage, signal })
+    ),
+    { signal: options.signal, timeoutMs: MEDIA_TIMEOUT_MS }
+  );
@@ -0,0 +1,162 @@
+import { TokenUsage } from "../types";
+import { TOKEN_PRICES } from "../constants";
+
+// Token usage reported by the model, or estimated for calls that ended without
+// a report, aggregated per day, operation and language pair so the log stays
+// small however much is translated.
+
+const USAGE_KEY = 'lingosync_usage';
+const BUDGET_KEY = 'lingosync_usage_budget';
+// Older days are dropped when usage is recorded
+const RETENTION_DAYS = 90;
+
+export type UsageOperation = 'translate' | 'alternatives' | 'quality' | 'detect' | 'speak' | 'transcribe' | 'extract-text';
+
+export interface UsageRow extends TokenUsage {
+  // Local calendar day, YYYY-MM-DD
+  day: string;
+  operation: UsageOperation;
+  // Empty for calls that aren't tied to a pair, e.g. detection
+  sourceLanguage: string;
+  targetLanguage: string;
+  requests: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  // Estimated, in US dollars
+  cost: number;
+}
+
+export interface UsageBudget {
+  // Soft daily limits; unset means no limit
+  dailyTokens?: number;
+  dailyCost?: number;
+  // 'manual' stops translating on every pause in typing until the next day
+  onExceeded: 'warn' | 'manual';
+}
+
+export const DEFAULT_BUDGET: UsageBudget = { onExceeded: 'warn' };
+
+export const dayKey = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const costOf = (row: UsageRow) => {
+  const prices = row.operation === 'speak' ? TOKEN_PRICES.speech : TOKEN_PRICES.text;
+  return (row.inputTokens * prices.input + row.outputTokens * prices.output) / 1_000_000;
+};
+
+const loadRows = (): UsageRow[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+let rows: UsageRow[] | null = null;
+// Calls made since the page loaded
+let session: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+const usageListeners = new Set<() => void>();
+
+// The CLI shares translationService but has no storage to record into
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+export const getUsage = () => {
+  if (!rows) rows = hasStorage() ? loadRows() : [];
+  return rows;
+};
+
+export const getSessionUsage = () => session;
+
+export const subscribeUsage = (listener: () => void) => {
+  usageListeners.add(listener);
+  return () => {
+    usageListeners.delete(listener);
+  };
+};
+
+const updateRows = (next: UsageRow[]) => {
+  rows = next;
+  localStorage.setItem(USAGE_KEY, JSON.stringify(next));
+  usageListeners.forEach(listener => listener());
+};
+
+const addUsage = (operation: UsageOperation, requests: number, usage: TokenUsage, sourceLanguage: string, targetLanguage: string) => {
+  if (!hasStorage()) return;
+  const day = dayKey();
+  const cutoff = dayKey(new Date(Date.now() - RETENTION_DAYS * 86_400_000));
+  const kept = getUsage().filter(row => row.day >= cutoff);
+  const index = kept.findIndex(row =>
+    row.day === day &&
+    row.operation === operation &&
+    row.sourceLanguage === sourceLanguage &&
+    row.targetLanguage === targetLanguage
+  );
+  const previous = index >= 0 ? kept[index] : { day, operation, sourceLanguage, targetLanguage, requests: 0, inputTokens: 0, outputTokens: 0 };
+  const row: UsageRow = {
+    ...previous,
+    requests: previous.requests + requests,
+    inputTokens: previous.inputTokens + usage.inputTokens,
+    outputTokens: previous.outputTokens + usage.outputTokens,
+  };
+
+  session = {
+    requests: session.requests + requests,
+    inputTokens: session.inputTokens + usage.inputTokens,
+    outputTokens: session.outputTokens + usage.outputTokens,
+    cost: session.cost + costOf({ ...row, ...usage }),
+  };
+  updateRows(index >= 0 ? kept.map((r, i) => (i === index ? row : r)) : [...kept, row]);
+};
+
+// Counted when the call is sent, whether or not it ever reports usage
+export const recordRequest = (operation: UsageOperation, sourceLanguage = '', targetLanguage = '') =>
+  addUsage(operation, 1, { inputTokens: 0, outputTokens: 0 }, sourceLanguage, targetLanguage);
+
+// Tokens consumed by a call already counted by recordRequest
+export const recordUsage = (operation: UsageOperation, usage: TokenUsage, sourceLanguage = '', targetLanguage = '') =>
+  addUsage(operation, 0, usage, sourceLanguage, targetLanguage);
+
+export const clearUsage = () => {
+  session = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+  updateRows([]);
+};
+
+export const totalUsage = (selected: UsageRow[]): UsageTotals =>
+  selected.reduce(
+    (sum, row) => ({
+      requests: sum.requests + row.requests,
+      inputTokens: sum.inputTokens + row.inputTokens,
+      outputTokens: sum.outputTokens + row.outputTokens,
+      cost: sum.cost + costOf(row),
+    }),
+    { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+  );
+
+// Totals per group, largest cost first
+export const groupUsage = (selected: UsageRow[], keyOf: (row: UsageRow) => string) => {
+  const groups = new Map<string, UsageRow[]>();
+  selected.forEach(row => groups.set(keyOf(row), [...(groups.get(keyOf(row)) ?? []), row]));
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...totalUsage(group) }))
+    .sort((a, b) => b.cost - a.cost);
+};
+
+export const loadBudget = (): UsageBudget => {
+  try {
+    return { ...DEFAULT_BUDGET, ...JSON.parse(localStorage.getItem(BUDGET_KEY) || '{}') };
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+};
+
+export const saveBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+};
+
+// Whether today's usage has passed either daily limit
+export const isBudgetExceeded = (today: UsageTotals, budget: UsageBudget) =>
+  (budget.dailyTokens !== undefined && today.inputTokens + today.outputTokens >= budget.dailyTokens) ||
+  (budget.dailyCost !== undefined && today.cost >= budget.dailyCost);
@@ -1,7 +1,18 @@
+export type TextDirection = 'ltr' | 'rtl';
 
 export interface Language {
+  // BCP-47 tag, e.g. "pt-BR" or "zh-Hant"; "auto" is the detect option
   code: string;
+  // English name, shown in the UI and used in prompts
   name: string;
+  // The language's name for itself
+  nativeName?: string;
+  // Defaults to 'ltr'
+  direction?: TextDirection;
+  // Whether the speech model can read it aloud
+  tts?: boolean;
+  // Tag of the base language for regional variants ("pt" for "pt-BR")
+  variantOf?: string;
 }
 
 export interface TranslationResult {
@@ -14,4 +25,162 @@ export interface TranslationResult {
 export interface HistoryItem extends TranslationResult {
   id: string;
   timestamp: number;
+  sourceText: string;
+  pinned?: boolean;
+  // Set once a reviewer has post-edited and approved the translation
+  approved?: boolean;
+  // The unedited model output, kept alongside an approved translation
+  machineTranslation?: string;
+}
+
+export type ConversationSide = 'left' | 'right';
+
+export interface ConversationTurn {
+  id: string;
+  speaker: ConversationSide;
+  text: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  timestamp: number;
+}
+
+export interface DetectionResult {
+  language: string;
+  confidence: number;
+}
+
+// Raw 16-bit PCM audio as returned by a speech backend
+export interface SpeechAudio {
+  data: Uint8Array;
+  sampleRate: number;
+  numChannels: number;
+}
+
+export interface GlossaryEntry {
+  id: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceTerm: string;
+  // Equal to sourceTerm for "do not translate" entries
+  targetTerm: string;
+  doNotTranslate?: boolean;
+}
+
+export interface MemoryEntry {
+  id: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceText: string;
+  targetText: string;
+  timestamp: number;
+}
+
+// 'auto' leaves the T-V choice (tu/vous, du/Sie) to the model
+export type Formality = 'auto' | 'formal' | 'informal';
+
+export type TonePreset = 'neutral' | 'legal' | 'marketing' | 'casual' | 'technical';
+
+export interface TranslationStyle {
+  formality: Formality;
+  tone: TonePreset;
+}
+
+export interface TranslationAlternative {
+  translatedText: string;
+  // How this candidate differs from the others
+  note: string;
+}
+
+// Fractions of the image size, measured from the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A run of text found in an image, e.g. one line of a sign or a paragraph
+export interface TextBlock {
+  text: string;
+  box: BoundingBox;
+}
+
+export type QualityIssueType = 'mistranslation' | 'omission' | 'untranslated' | 'formatting';
+
+export type QualitySeverity = 'minor' | 'major';
+
+export interface QualityIssue {
+  type: QualityIssueType;
+  severity: QualitySeverity;
+  // Quoted from the translation; omissions quote the source instead
+  span: string;
+  explanation: string;
+}
+
+export interface QualityAssessment {
+  // 0-100, higher is better
+  score: number;
+  summary: string;
+  issues: QualityIssue[];
+}
+
+// Tokens the model reports for one call
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageOptions {
+  // Called with what each model call consumed, once it is known
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface RequestOptions extends UsageOptions {
+  signal?: AbortSignal;
+}
+
+export interface TranslateOptions extends RequestOptions {
+  glossary?: GlossaryEntry[];
+  style?: TranslationStyle;
+}
+
+export type ProviderId = 'gemini' | 'mock' | 'proxy';
+
+export interface TranslationProvider {
+  id: ProviderId;
+  translateStream: (
+    text: string,
+    sourceLang: string,
+    targetLang: string,
+    onChunk: (chunk: string) => void,
+    options?: TranslateOptions
+  ) => Promise<void>;
+  translate: (
+    text: string,
+    sourceLang: string,
+    targetLang: string,
+    options?: TranslateOptions
+  ) => Promise<TranslationResult>;
+  // 2-3 candidate renderings, each with a short note on how it differs
+  alternatives: (
+    text: string,
+    sourceLang: string,
+    targetLang: string,
+    options?: TranslateOptions
+  ) => Promise<TranslationAlternative[]>;
+  // Scores a finished translation and flags problem spans in it
+  assessQuality: (
+    sourceText: string,
+    translatedText: string,
+    sourceLang: string,
+    targetLang: string,
+    options?: TranslateOptions
+  ) => Promise<QualityAssessment>;
+  detect: (text: string, options?: RequestOptions) => Promise<DetectionResult>;
+  speak: (text: string, languageName: string, voice?: string, options?: RequestOptions) => Promise<SpeechAudio>;
+  // languageName is a hint; omit it to let the backend detect the language
+  transcribe: (audio: Blob, languageName?: string, options?: RequestOptions) => Promise<string>;
+  // Text blocks in reading order; empty when the image has no text
+  extractText: (image: Blob, options?: RequestOptions) => Promise<TextBlock[]>;
 }
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -8,11 +9,25 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Forward API calls to the translation proxy (npm run server)
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.PROXY_PORT || 8787}`,
+            rewrite: (p) => p.replace(/^\/api/, ''),
+          },
+        },
       },
       plugins: [react()],
+      // Never define GEMINI_API_KEY here: anything in `define` ends up in the bundle
+      // Unset values become '' so that Vitest, which assigns these to process.env, doesn't turn them into "undefined"
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.TRANSLATION_PROVIDER': JSON.stringify(env.TRANSLATION_PROVIDER ?? ''),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL ?? ''),
+        'process.env.CUSTOM_LANGUAGES': JSON.stringify(env.CUSTOM_LANGUAGES ?? '')
+      },
+      test: {
+        // Component tests opt into jsdom with a @vitest-environment comment
+        setupFiles: ['./vitest.setup.ts'],
       },
       resolve: {
         alias: {
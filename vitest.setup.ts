@@ -0,0 +1,9 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+if (typeof window !== 'undefined') {
+  // jsdom doesn't lay anything out, so it has no scrolling either
+  Element.prototype.scrollIntoView = () => {};
+  afterEach(cleanup);
+}